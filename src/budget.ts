@@ -0,0 +1,189 @@
+// Budget enforcement for AgentBill SDK
+import { AgentBillConfigError, BudgetExceededError } from './errors';
+import { BudgetEvent, BudgetRule, BudgetWindow } from './types';
+
+const WINDOW_MS: Record<BudgetWindow, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  month: 30 * 86_400_000,
+};
+
+/**
+ * Each window is tracked as this many buckets, so memory stays bounded no
+ * matter how many calls are made
+ */
+const BUCKETS_PER_WINDOW = 60;
+
+interface Bucket {
+  costUsd: number;
+  tokens: number;
+}
+
+export interface BudgetDecision {
+  /** Model to call, after any downgrades */
+  model: string;
+  /** Limits the call ran into */
+  events: BudgetEvent[];
+}
+
+/**
+ * Tracks spend against budget rules over rolling windows.
+ *
+ * Limits are checked against usage already recorded, so calls that are in
+ * flight when a limit is crossed still complete.
+ */
+export class BudgetManager {
+  private rules: BudgetRule[];
+  private onEvent?: (event: BudgetEvent) => void;
+  private now: () => number;
+  /** Buckets per rule, keyed by customer id, model or 'global' */
+  private usage: Array<Map<string, Map<number, Bucket>>>;
+
+  constructor(rules: BudgetRule[], onEvent?: (event: BudgetEvent) => void, now: () => number = Date.now) {
+    for (const rule of rules) {
+      if (rule.maxCostUsd === undefined && rule.maxTokens === undefined) {
+        throw new AgentBillConfigError([`budget "${ruleName(rule)}" needs maxCostUsd or maxTokens`]);
+      }
+      if (rule.action === 'downgrade' && !rule.downgradeModel) {
+        throw new AgentBillConfigError([`budget "${ruleName(rule)}" uses the downgrade action without a downgradeModel`]);
+      }
+    }
+    this.rules = rules;
+    this.onEvent = onEvent;
+    this.now = now;
+    this.usage = rules.map(() => new Map());
+  }
+
+  /**
+   * Apply every rule to a call about to be made. Throws BudgetExceededError
+   * when a 'throw' rule has been reached; otherwise returns the model to use.
+   */
+  enforce(customerId: string | undefined, model: string): BudgetDecision {
+    const events: BudgetEvent[] = [];
+    let current = model;
+
+    this.rules.forEach((rule, index) => {
+      const key = this.keyFor(rule, customerId, current);
+      if (key === undefined) return;
+
+      const { costUsd, tokens } = this.total(index, key, rule.window);
+      const exceeded = (rule.maxCostUsd !== undefined && costUsd >= rule.maxCostUsd)
+        || (rule.maxTokens !== undefined && tokens >= rule.maxTokens);
+      if (!exceeded) return;
+
+      const action = rule.action || 'throw';
+      const event: BudgetEvent = {
+        rule: ruleName(rule),
+        action,
+        scope: rule.scope,
+        key,
+        window: rule.window,
+        spentUsd: costUsd,
+        tokens,
+        maxCostUsd: rule.maxCostUsd,
+        maxTokens: rule.maxTokens,
+        model: current,
+      };
+      if (action === 'downgrade') {
+        event.downgradedTo = rule.downgradeModel;
+        current = rule.downgradeModel!;
+      }
+
+      events.push(event);
+      this.emit(event);
+      if (action === 'throw') {
+        throw new BudgetExceededError(event);
+      }
+    });
+
+    return { model: current, events };
+  }
+
+  /**
+   * Count a completed call against every rule it falls under
+   */
+  record(customerId: string | undefined, model: string, costUsd: number, tokens: number) {
+    const now = this.now();
+
+    this.rules.forEach((rule, index) => {
+      const key = this.keyFor(rule, customerId, model);
+      if (key === undefined) return;
+
+      const width = WINDOW_MS[rule.window] / BUCKETS_PER_WINDOW;
+      const current = Math.floor(now / width);
+      let buckets = this.usage[index].get(key);
+      if (!buckets) {
+        buckets = new Map();
+        this.usage[index].set(key, buckets);
+      }
+
+      for (const bucket of buckets.keys()) {
+        if (bucket <= current - BUCKETS_PER_WINDOW) {
+          buckets.delete(bucket);
+        }
+      }
+
+      const bucket = buckets.get(current) || { costUsd: 0, tokens: 0 };
+      bucket.costUsd += costUsd;
+      bucket.tokens += tokens;
+      buckets.set(current, bucket);
+    });
+  }
+
+  private total(index: number, key: string, window: BudgetWindow): Bucket {
+    const totals: Bucket = { costUsd: 0, tokens: 0 };
+    const buckets = this.usage[index].get(key);
+    if (!buckets) return totals;
+
+    const current = Math.floor(this.now() / (WINDOW_MS[window] / BUCKETS_PER_WINDOW));
+    for (const [bucket, usage] of buckets) {
+      if (bucket > current - BUCKETS_PER_WINDOW) {
+        totals.costUsd += usage.costUsd;
+        totals.tokens += usage.tokens;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Which counter of `rule` a call is tracked under, or undefined when the
+   * rule does not apply to it
+   */
+  private keyFor(rule: BudgetRule, customerId: string | undefined, model: string): string | undefined {
+    switch (rule.scope) {
+      case 'global':
+        return 'global';
+      case 'customer':
+        if (!customerId || (rule.customerId && rule.customerId !== customerId)) return undefined;
+        return customerId;
+      case 'model':
+        if (rule.model && !matchesModel(model, rule.model)) return undefined;
+        return model;
+    }
+  }
+
+  private emit(event: BudgetEvent) {
+    if (!this.onEvent) {
+      if (event.action !== 'throw') {
+        console.warn(`[AgentBill] Budget "${event.rule}" reached for ${event.key}`, event);
+      }
+      return;
+    }
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      console.error('[AgentBill] onBudgetEvent handler failed:', error);
+    }
+  }
+}
+
+function ruleName(rule: BudgetRule): string {
+  return rule.name || `${rule.scope}/${rule.window}`;
+}
+
+function matchesModel(model: string, pattern: string): boolean {
+  const name = model.toLowerCase();
+  const prefix = pattern.toLowerCase();
+  return name === prefix || name.startsWith(`${prefix}-`) || name.startsWith(`${prefix}:`);
+}
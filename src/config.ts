@@ -0,0 +1,117 @@
+// Configuration loading and validation for AgentBill SDK
+import { AgentBillConfig } from './types';
+import { AgentBillConfigError } from './errors';
+
+/**
+ * Fill options missing from `config` from `AGENTBILL_*` environment
+ * variables; options passed in code win. A trailing slash on `baseUrl` is
+ * dropped.
+ */
+export function loadConfig(
+  config: Partial<AgentBillConfig> = {},
+  env: Record<string, string | undefined> = process.env
+): AgentBillConfig {
+  const issues: string[] = [];
+  const flag = (name: string): boolean | undefined => {
+    const value = env[name]?.trim().toLowerCase();
+    if (!value) return undefined;
+    if (['1', 'true', 'yes', 'on'].includes(value)) return true;
+    if (['0', 'false', 'no', 'off'].includes(value)) return false;
+    issues.push(`${name} must be true or false, got "${env[name]}"`);
+    return undefined;
+  };
+
+  const loaded = {
+    ...config,
+    apiKey: config.apiKey ?? env.AGENTBILL_API_KEY ?? '',
+    baseUrl: (config.baseUrl ?? (env.AGENTBILL_BASE_URL || undefined))?.replace(/\/+$/, ''),
+    customerId: config.customerId ?? (env.AGENTBILL_CUSTOMER_ID || undefined),
+    debug: config.debug ?? flag('AGENTBILL_DEBUG'),
+    disabled: config.disabled ?? flag('AGENTBILL_DISABLED'),
+  };
+  if (issues.length > 0) {
+    throw new AgentBillConfigError(issues);
+  }
+  return loaded;
+}
+
+/**
+ * Throw an AgentBillConfigError listing every invalid option
+ */
+export function validateConfig(config: AgentBillConfig) {
+  const issues: string[] = [];
+  const check = (valid: boolean, issue: string) => {
+    if (!valid) issues.push(issue);
+  };
+  const integer = (value: unknown, name: string, min: number) => {
+    if (value === undefined) return;
+    check(Number.isInteger(value) && (value as number) >= min, `${name} must be an integer of at least ${min}, got ${value}`);
+  };
+  const oneOf = (value: unknown, name: string, allowed: string[]) => {
+    if (value === undefined) return;
+    check(allowed.includes(value as string), `${name} must be one of ${allowed.map(option => `'${option}'`).join(', ')}, got ${JSON.stringify(value)}`);
+  };
+  const ratio = (value: unknown, name: string) => {
+    const issue = ratioIssue(value, name);
+    if (issue) issues.push(issue);
+  };
+
+  // A disabled SDK sends nothing, so it needs no credentials
+  if (!config.disabled) {
+    check(
+      typeof config.apiKey === 'string' && config.apiKey.trim() !== '',
+      'apiKey is missing; pass it to AgentBill.init() or set AGENTBILL_API_KEY'
+    );
+  }
+  if (config.baseUrl !== undefined) {
+    check(isHttpUrl(config.baseUrl), `baseUrl must be an http or https URL, got ${JSON.stringify(config.baseUrl)}`);
+  }
+  if (config.customerId !== undefined) {
+    check(typeof config.customerId === 'string' && config.customerId !== '', 'customerId must be a non-empty string');
+  }
+
+  integer(config.maxQueueSize, 'maxQueueSize', 1);
+  integer(config.maxBatchSize, 'maxBatchSize', 1);
+  integer(config.scheduledDelayMs, 'scheduledDelayMs', 0);
+  integer(config.exportTimeoutMs, 'exportTimeoutMs', 1);
+  integer(config.retry?.maxAttempts, 'retry.maxAttempts', 1);
+  integer(config.retry?.initialDelayMs, 'retry.initialDelayMs', 0);
+  integer(config.retry?.maxDelayMs, 'retry.maxDelayMs', 0);
+  if (config.ledger) {
+    integer(config.ledger.maxEntries, 'ledger.maxEntries', 1);
+    oneOf(config.ledger.format, 'ledger.format', ['jsonl', 'csv']);
+  }
+
+  oneOf(config.promptCapture, 'promptCapture', ['off', 'hash', 'redacted', 'full']);
+  oneOf(config.dropPolicy, 'dropPolicy', ['drop_oldest', 'drop_newest']);
+  oneOf(config.protocol, 'protocol', ['http/json', 'http/protobuf']);
+  oneOf(config.compression, 'compression', ['none', 'gzip']);
+
+  if (config.sampling) {
+    if (config.sampling.ratio !== undefined) ratio(config.sampling.ratio, 'sampling.ratio');
+    (config.sampling.rules || []).forEach((rule, index) => ratio(rule.ratio, `sampling.rules[${index}].ratio`));
+    oneOf(config.sampling.mode, 'sampling.mode', ['drop', 'usage_only']);
+  }
+
+  if (issues.length > 0) {
+    throw new AgentBillConfigError(issues);
+  }
+}
+
+/**
+ * Why `value` is not a valid sampling ratio, or undefined when it is
+ */
+export function ratioIssue(value: unknown, name: string): string | undefined {
+  if (typeof value === 'number' && value >= 0 && value <= 1) return undefined;
+  return `${name} must be a number from 0 to 1, got ${value}`;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
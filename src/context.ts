@@ -0,0 +1,154 @@
+// Async context propagation for AgentBill SDK
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AgentBillTracer } from './tracer';
+import { AttributionContext, TraceContext } from './types';
+
+/**
+ * Attribution set by `withContext()`, plus the trace position once inside a
+ * `trace()` step or agent run
+ */
+type ActiveContext = AttributionContext & Partial<Pick<TraceContext, 'traceId' | 'spanId'>>;
+
+const storage = new AsyncLocalStorage<ActiveContext>();
+
+/**
+ * Symbol under which `withCallContext()` attaches attribution to request params
+ */
+const CALL_CONTEXT = Symbol.for('agentbill.callContext');
+
+export function getActiveContext(): ActiveContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithContext<R>(context: ActiveContext, fn: () => R): R {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run `fn` with additional attribution layered over the current context.
+ * Tags accumulate and metadata is merged key by key.
+ */
+export function withAttribution<R>(attribution: AttributionContext, fn: () => R): R {
+  return runWithContext(mergeAttribution(getActiveContext() || {}, attribution), fn);
+}
+
+export function mergeAttribution<T extends AttributionContext>(base: T, override: AttributionContext): T {
+  const merged: T = { ...base };
+  if (override.customerId !== undefined) merged.customerId = override.customerId;
+  if (override.userId !== undefined) merged.userId = override.userId;
+  if (override.sessionId !== undefined) merged.sessionId = override.sessionId;
+  if (override.tags) {
+    merged.tags = Array.from(new Set([...(base.tags || []), ...override.tags]));
+  }
+  if (override.metadata) {
+    merged.metadata = { ...base.metadata, ...override.metadata };
+  }
+  return merged;
+}
+
+/**
+ * Attach attribution to a single request. The returned params are the same
+ * object; the attribution lives under a non-enumerable symbol, so it is never
+ * serialized into the provider request.
+ *
+ * @example
+ * ```typescript
+ * await openai.chat.completions.create(withCallContext(
+ *   { model: 'gpt-4o', messages },
+ *   { customerId: 'customer-42', metadata: { feature: 'summarize' } }
+ * ));
+ * ```
+ */
+export function withCallContext<P extends object>(params: P, attribution: AttributionContext): P {
+  Object.defineProperty(params, CALL_CONTEXT, {
+    value: attribution,
+    enumerable: false,
+    configurable: true,
+  });
+  return params;
+}
+
+export function getCallContext(params: any): AttributionContext | undefined {
+  return params && typeof params === 'object' ? params[CALL_CONTEXT] : undefined;
+}
+
+/**
+ * Run `fn` inside a new internal span. Every span started while `fn` runs,
+ * including wrapped LLM calls, becomes a child of it.
+ */
+export async function traceStep<R>(
+  tracer: AgentBillTracer,
+  name: string,
+  fn: (context: TraceContext) => R | Promise<R>,
+  attributes: Record<string, string | number | boolean> = {}
+): Promise<R> {
+  const context = tracer.startSpan(name, undefined, 'internal');
+  for (const [key, value] of Object.entries(attributes)) {
+    tracer.setSpanAttribute(context.spanId, key, value);
+  }
+
+  try {
+    const result = await runWithContext(context, () => fn(context));
+    tracer.setSpanStatus(context.spanId, 0);
+    tracer.endSpan(context.spanId);
+    return result;
+  } catch (error) {
+    tracer.setSpanError(context.spanId, error);
+    tracer.endSpan(context.spanId);
+    throw error;
+  }
+}
+
+/**
+ * A long-lived root span for one agent task. Steps and calls made through
+ * `run()` or `step()` share its trace ID, so their cost rolls up to the run.
+ */
+export class AgentRun {
+  readonly traceId: string;
+  readonly spanId: string;
+  private tracer: AgentBillTracer;
+  private context: TraceContext;
+  private ended = false;
+
+  constructor(tracer: AgentBillTracer, name: string, attributes: Record<string, string | number | boolean> = {}) {
+    this.tracer = tracer;
+    this.context = tracer.startSpan(name, undefined, 'internal');
+    this.traceId = this.context.traceId;
+    this.spanId = this.context.spanId;
+
+    tracer.setSpanAttribute(this.spanId, 'agentbill.span.type', 'agent_run');
+    tracer.setSpanAttribute(this.spanId, 'agentbill.agent.name', name);
+    for (const [key, value] of Object.entries(attributes)) {
+      tracer.setSpanAttribute(this.spanId, key, value);
+    }
+  }
+
+  /**
+   * Run `fn` as part of this agent run without creating a step span
+   */
+  run<R>(fn: () => R): R {
+    return runWithContext(this.context, fn);
+  }
+
+  /**
+   * Run `fn` as a named step of this agent run
+   */
+  step<R>(name: string, fn: (context: TraceContext) => R | Promise<R>): Promise<R> {
+    return this.run(() => traceStep(this.tracer, name, fn, { 'agentbill.span.type': 'step' }));
+  }
+
+  /**
+   * End the run; pass the error if the agent task failed
+   */
+  end(error?: unknown) {
+    if (this.ended) return;
+    this.ended = true;
+
+    if (error) {
+      this.tracer.setSpanError(this.spanId, error);
+    } else {
+      this.tracer.setSpanStatus(this.spanId, 0);
+    }
+    this.tracer.endSpan(this.spanId);
+  }
+}
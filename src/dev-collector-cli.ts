@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+// agentbill-dev-collector command for AgentBill SDK
+import { startDevCollector } from './dev-collector';
+
+const USAGE = `Usage: agentbill-dev-collector [--port <port>] [--host <host>] [--api-key <key>]
+
+Runs a local stand-in for the AgentBill collector. Point the SDK at it with
+  AgentBill.init({ apiKey: '...', baseUrl: 'http://127.0.0.1:4318' })
+and each exported span and signal is validated and printed as it arrives.
+
+Options:
+  --port <port>     Port to listen on (default: 4318)
+  --host <host>     Interface to listen on (default: 127.0.0.1)
+  --api-key <key>   Reject requests that do not carry this API key
+  --help            Show this message
+`;
+
+function parseArgs(argv: string[]): { port?: number; host?: string; apiKey?: string } {
+  const options: { port?: number; host?: string; apiKey?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split('=', 2);
+    const value = () => inline ?? argv[++i];
+    switch (flag) {
+      case '--port': {
+        const port = Number(value());
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`[AgentBill] Invalid --port: ${argv[i]}`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--host':
+        options.host = value();
+        break;
+      case '--api-key':
+        options.apiKey = value();
+        break;
+      case '--help':
+      case '-h':
+        process.stdout.write(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`[AgentBill] Unknown option: ${argv[i]}\n\n${USAGE}`);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const collector = await startDevCollector(parseArgs(process.argv.slice(2)));
+  process.stdout.write(`AgentBill dev collector listening on ${collector.url}\n`
+    + `Set baseUrl: '${collector.url}' in AgentBill.init() to send telemetry here.\n\n`);
+
+  const stop = () => {
+    collector.close().then(() => process.exit(0));
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
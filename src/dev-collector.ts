@@ -0,0 +1,390 @@
+// Local development collector for AgentBill SDK
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { gunzipSync } from 'zlib';
+import { OtelExportPayload, OtlpSpan, SignalRecord } from './types';
+import { decodeValue } from './otlp';
+import { decodeTraceRequest } from './protobuf';
+
+export interface DevCollectorOptions {
+  /** Port to listen on; 0 picks a free one (default: 4318) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  host?: string;
+  /** When set, requests must carry this API key */
+  apiKey?: string;
+  /** Where the live table goes (default: stdout); pass `() => {}` to silence it */
+  write?: (text: string) => void;
+}
+
+export interface DevCollector {
+  /** Base URL to use as `baseUrl` in the SDK config */
+  url: string;
+  /** Every span received, in arrival order */
+  spans: OtlpSpan[];
+  /** Every signal received, duplicates (by idempotency key) excluded */
+  signals: SignalRecord[];
+  /** Requests rejected for failing validation, with their errors */
+  rejected: Array<{ path: string; errors: string[] }>;
+  close(): Promise<void>;
+}
+
+const TRACE_PATHS = ['/functions/v1/otel-collector', '/v1/traces'];
+const SIGNAL_PATH = '/functions/v1/record-signals';
+
+/**
+ * Columns of the live table: header, width and how to read a span
+ */
+const COLUMNS: Array<[string, number, (span: OtlpSpan, attrs: Record<string, any>) => string]> = [
+  ['TIME', 8, span => new Date(Number(BigInt(span.endTimeUnixNano) / BigInt(1e6))).toTimeString().slice(0, 8)],
+  ['SPAN', 34, span => span.name],
+  ['MODEL', 24, (_span, attrs) => attrs['gen_ai.response.model'] ?? attrs['gen_ai.request.model'] ?? ''],
+  ['CUSTOMER', 14, (_span, attrs) => attrs['customer.id'] ?? ''],
+  ['IN', 8, (_span, attrs) => formatCount(attrs['gen_ai.usage.prompt_tokens'])],
+  ['OUT', 8, (_span, attrs) => formatCount(attrs['gen_ai.usage.completion_tokens'])],
+  ['COST', 11, (_span, attrs) => attrs['gen_ai.usage.cost_usd'] === undefined ? '' : formatUsd(attrs['gen_ai.usage.cost_usd'])],
+  ['MS', 7, (_span, attrs) => formatCount(attrs['gen_ai.response.latency_ms'])],
+  ['STATUS', 6, span => span.status?.code === 2 ? 'error' : 'ok'],
+];
+
+/**
+ * Start a stand-in for the AgentBill collector that validates what the SDK
+ * sends and prints a live table of calls, tokens and cost. Point `baseUrl`
+ * at its `url` to check instrumentation end to end without network access.
+ *
+ * @example
+ * ```typescript
+ * const collector = await startDevCollector({ port: 0, write: () => {} });
+ * const agentBill = AgentBill.init({ apiKey: 'dev', baseUrl: collector.url });
+ * // ... make calls, then
+ * await agentBill.flush();
+ * expect(collector.spans).toHaveLength(1);
+ * await collector.close();
+ * ```
+ */
+export function startDevCollector(options: DevCollectorOptions = {}): Promise<DevCollector> {
+  const write = options.write || (text => process.stdout.write(text));
+  const seenSignals = new Set<string>();
+  const totals = { calls: 0, errors: 0, tokens: 0, costUsd: 0, revenueUsd: 0 };
+  let printedHeader = false;
+
+  const collector: Omit<DevCollector, 'url' | 'close'> = { spans: [], signals: [], rejected: [] };
+
+  function printSpans(spans: OtlpSpan[]) {
+    if (!printedHeader) {
+      write(COLUMNS.map(([title, width]) => title.padEnd(width)).join(' ').trimEnd() + '\n');
+      printedHeader = true;
+    }
+    for (const span of spans) {
+      const attrs = spanAttributes(span);
+      write(COLUMNS.map(([, width, read]) => fit(String(read(span, attrs)), width)).join(' ').trimEnd() + '\n');
+      if (attrs['gen_ai.system'] !== undefined) {
+        // Usage rollups from 'usage_only' sampling stand for several calls
+        totals.calls += attrs['agentbill.rollup.calls'] ?? 1;
+        totals.errors += attrs['agentbill.rollup.errors'] ?? (span.status?.code === 2 ? 1 : 0);
+        totals.tokens += (attrs['gen_ai.usage.prompt_tokens'] || 0) + (attrs['gen_ai.usage.completion_tokens'] || 0);
+        totals.costUsd += attrs['gen_ai.usage.cost_usd'] || 0;
+      }
+    }
+    printTotals();
+  }
+
+  function printTotals() {
+    write(`  calls ${totals.calls} · errors ${totals.errors} · tokens ${formatCount(totals.tokens)}`
+      + ` · cost ${formatUsd(totals.costUsd)} · revenue ${formatUsd(totals.revenueUsd)}\n`);
+  }
+
+  function handleTraces(body: Buffer, contentType: string | undefined): string[] {
+    let payload: unknown;
+    try {
+      payload = contentType?.includes('application/x-protobuf')
+        ? decodeTraceRequest(body)
+        : JSON.parse(body.toString('utf8'));
+    } catch (error) {
+      return [`body: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    const errors = validateExportPayload(payload);
+    if (errors.length > 0) return errors;
+
+    const spans = (payload as OtelExportPayload).resourceSpans.flatMap(r => r.scopeSpans.flatMap(s => s.spans));
+    collector.spans.push(...spans);
+    printSpans(spans);
+    return [];
+  }
+
+  function handleSignals(body: Buffer): string[] {
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString('utf8'));
+    } catch (error) {
+      return [`body: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    const errors = validateSignalPayload(payload);
+    if (errors.length > 0) return errors;
+
+    const signal = payload as SignalRecord;
+    if (seenSignals.has(signal.idempotency_key)) {
+      write(`  signal ${signal.event_name} ignored: duplicate idempotency key ${signal.idempotency_key}\n`);
+      return [];
+    }
+    seenSignals.add(signal.idempotency_key);
+    collector.signals.push(signal);
+    totals.revenueUsd += signal.revenue;
+    write(`  signal ${signal.event_name} ${formatUsd(signal.revenue)}`
+      + `${signal.customer_id ? ` customer ${signal.customer_id}` : ''}${signal.trace_id ? ` trace ${signal.trace_id}` : ''}\n`);
+    printTotals();
+    return [];
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url || '').split('?')[0];
+    const isTraces = TRACE_PATHS.includes(path);
+    if (req.method !== 'POST' || (!isTraces && path !== SIGNAL_PATH)) {
+      return respond(res, 404, { error: `No route for ${req.method} ${path}` });
+    }
+
+    if (options.apiKey) {
+      const key = isTraces ? req.headers['x-api-key'] : req.headers.authorization?.replace(/^Bearer /, '');
+      if (key !== options.apiKey) {
+        return respond(res, 401, { error: 'Invalid API key' });
+      }
+    }
+
+    let body = await readBody(req);
+    if (req.headers['content-encoding'] === 'gzip') {
+      try {
+        body = gunzipSync(body);
+      } catch {
+        return respond(res, 400, { errors: ['body: invalid gzip data'] });
+      }
+    }
+
+    const errors = isTraces ? handleTraces(body, req.headers['content-type']) : handleSignals(body);
+    if (errors.length > 0) {
+      collector.rejected.push({ path, errors });
+      write(`  rejected ${path}:\n${errors.map(error => `    ${error}\n`).join('')}`);
+      return respond(res, 400, { errors });
+    }
+    respond(res, 200, { success: true });
+  }
+
+  const server: Server = createServer((req, res) => {
+    handle(req, res).catch(error => respond(res, 500, { error: String(error) }));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 4318, options.host ?? '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+      resolve({
+        ...collector,
+        url: `http://${host}:${address.port}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Schema errors in an OTLP/JSON export payload, each prefixed with its path
+ */
+export function validateExportPayload(payload: any): string[] {
+  const errors: string[] = [];
+  const fail = (path: string, message: string) => {
+    errors.push(`${path}: ${message}`);
+  };
+
+  if (!isObject(payload) || !Array.isArray(payload.resourceSpans)) {
+    fail('resourceSpans', 'expected an array');
+    return errors;
+  }
+  payload.resourceSpans.forEach((resourceSpans: any, i: number) => {
+    const at = `resourceSpans[${i}]`;
+    if (!isObject(resourceSpans)) return fail(at, 'expected an object');
+    if (resourceSpans.resource !== undefined) {
+      validateAttributes(resourceSpans.resource?.attributes, `${at}.resource.attributes`, fail);
+    }
+    if (!Array.isArray(resourceSpans.scopeSpans)) return fail(`${at}.scopeSpans`, 'expected an array');
+
+    resourceSpans.scopeSpans.forEach((scopeSpans: any, j: number) => {
+      const scopeAt = `${at}.scopeSpans[${j}]`;
+      if (!isObject(scopeSpans)) return fail(scopeAt, 'expected an object');
+      if (scopeSpans.scope !== undefined && typeof scopeSpans.scope?.name !== 'string') {
+        fail(`${scopeAt}.scope.name`, 'expected a string');
+      }
+      if (!Array.isArray(scopeSpans.spans)) return fail(`${scopeAt}.spans`, 'expected an array');
+      scopeSpans.spans.forEach((span: any, k: number) => validateSpan(span, `${scopeAt}.spans[${k}]`, fail));
+    });
+  });
+  return errors;
+}
+
+function validateSpan(span: any, at: string, fail: (path: string, message: string) => void) {
+  if (!isObject(span)) return fail(at, 'expected an object');
+  if (!isHexId(span.traceId, 32)) fail(`${at}.traceId`, 'expected 32 hex characters, not all zero');
+  if (!isHexId(span.spanId, 16)) fail(`${at}.spanId`, 'expected 16 hex characters, not all zero');
+  if (span.parentSpanId !== undefined && span.parentSpanId !== '' && !isHexId(span.parentSpanId, 16)) {
+    fail(`${at}.parentSpanId`, 'expected 16 hex characters');
+  }
+  if (typeof span.name !== 'string' || span.name === '') fail(`${at}.name`, 'expected a non-empty string');
+  if (span.kind !== undefined && !(Number.isInteger(span.kind) && span.kind >= 0 && span.kind <= 5)) {
+    fail(`${at}.kind`, 'expected a SpanKind number from 0 to 5');
+  }
+  const start = validateTime(span.startTimeUnixNano, `${at}.startTimeUnixNano`, fail);
+  const end = validateTime(span.endTimeUnixNano, `${at}.endTimeUnixNano`, fail);
+  if (start !== undefined && end !== undefined && end < start) {
+    fail(`${at}.endTimeUnixNano`, 'ends before it starts');
+  }
+  validateAttributes(span.attributes, `${at}.attributes`, fail);
+
+  if (span.events !== undefined) {
+    if (!Array.isArray(span.events)) {
+      fail(`${at}.events`, 'expected an array');
+    } else {
+      span.events.forEach((event: any, i: number) => {
+        if (typeof event?.name !== 'string') fail(`${at}.events[${i}].name`, 'expected a string');
+        validateTime(event?.timeUnixNano, `${at}.events[${i}].timeUnixNano`, fail);
+        validateAttributes(event?.attributes, `${at}.events[${i}].attributes`, fail);
+      });
+    }
+  }
+  if (span.links !== undefined) {
+    if (!Array.isArray(span.links)) {
+      fail(`${at}.links`, 'expected an array');
+    } else {
+      span.links.forEach((link: any, i: number) => {
+        if (!isHexId(link?.traceId, 32)) fail(`${at}.links[${i}].traceId`, 'expected 32 hex characters, not all zero');
+        if (!isHexId(link?.spanId, 16)) fail(`${at}.links[${i}].spanId`, 'expected 16 hex characters, not all zero');
+        validateAttributes(link?.attributes, `${at}.links[${i}].attributes`, fail);
+      });
+    }
+  }
+  for (const count of ['droppedAttributesCount', 'droppedEventsCount', 'droppedLinksCount']) {
+    if (span[count] !== undefined && !(Number.isInteger(span[count]) && span[count] >= 0)) {
+      fail(`${at}.${count}`, 'expected a non-negative integer');
+    }
+  }
+  if (span.status !== undefined) {
+    if (!isObject(span.status) || ![undefined, 0, 1, 2].includes(span.status.code)) {
+      fail(`${at}.status.code`, 'expected 0, 1 or 2');
+    }
+  }
+}
+
+function validateAttributes(attributes: any, at: string, fail: (path: string, message: string) => void) {
+  if (attributes === undefined) return;
+  if (!Array.isArray(attributes)) return fail(at, 'expected an array');
+  const keys = new Set<string>();
+  attributes.forEach((attribute: any, i: number) => {
+    if (typeof attribute?.key !== 'string' || attribute.key === '') {
+      return fail(`${at}[${i}].key`, 'expected a non-empty string');
+    }
+    if (keys.has(attribute.key)) fail(`${at}[${i}].key`, `duplicate key "${attribute.key}"`);
+    keys.add(attribute.key);
+    validateAnyValue(attribute.value, `${at}[${i}].value`, fail);
+  });
+}
+
+function validateAnyValue(value: any, at: string, fail: (path: string, message: string) => void) {
+  if (!isObject(value)) return fail(at, 'expected an AnyValue object');
+  const fields = Object.keys(value);
+  if (fields.length !== 1) return fail(at, `expected exactly one value field, got ${fields.length}`);
+
+  const [field] = fields;
+  const inner = value[field];
+  switch (field) {
+    case 'stringValue':
+      if (typeof inner !== 'string') fail(`${at}.stringValue`, 'expected a string');
+      break;
+    case 'boolValue':
+      if (typeof inner !== 'boolean') fail(`${at}.boolValue`, 'expected a boolean');
+      break;
+    case 'intValue':
+      if (!(typeof inner === 'string' && /^-?\d+$/.test(inner)) && !Number.isSafeInteger(inner)) {
+        fail(`${at}.intValue`, 'expected an integer, as a decimal string');
+      }
+      break;
+    case 'doubleValue':
+      if (typeof inner !== 'number') fail(`${at}.doubleValue`, 'expected a number');
+      break;
+    case 'bytesValue':
+      if (typeof inner !== 'string') fail(`${at}.bytesValue`, 'expected a base64 string');
+      break;
+    case 'arrayValue':
+      if (!Array.isArray(inner?.values)) fail(`${at}.arrayValue.values`, 'expected an array');
+      else inner.values.forEach((item: any, i: number) => validateAnyValue(item, `${at}.arrayValue.values[${i}]`, fail));
+      break;
+    case 'kvlistValue':
+      validateAttributes(inner?.values ?? null, `${at}.kvlistValue.values`, fail);
+      break;
+    default:
+      fail(at, `unknown value field "${field}"`);
+  }
+}
+
+function validateTime(value: any, at: string, fail: (path: string, message: string) => void): bigint | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    fail(at, 'expected nanoseconds as a decimal string');
+    return undefined;
+  }
+  return BigInt(value);
+}
+
+/**
+ * Schema errors in a record-signals body, which holds a single signal
+ */
+export function validateSignalPayload(signal: any): string[] {
+  if (!isObject(signal)) {
+    return ['signal: expected an object'];
+  }
+  const errors: string[] = [];
+  if (typeof signal.event_name !== 'string' || signal.event_name === '') errors.push('event_name: expected a non-empty string');
+  if (!Number.isFinite(signal.revenue)) errors.push('revenue: expected a number');
+  if (!Number.isFinite(signal.timestamp)) errors.push('timestamp: expected milliseconds since the epoch');
+  if (typeof signal.idempotency_key !== 'string' || signal.idempotency_key === '') errors.push('idempotency_key: expected a non-empty string');
+  if (signal.trace_id !== undefined && !isHexId(signal.trace_id, 32)) errors.push('trace_id: expected 32 hex characters');
+  if (signal.span_id !== undefined && !isHexId(signal.span_id, 16)) errors.push('span_id: expected 16 hex characters');
+  if (signal.data !== undefined && !isObject(signal.data)) errors.push('data: expected an object');
+  return errors;
+}
+
+function spanAttributes(span: OtlpSpan): Record<string, any> {
+  return Object.fromEntries((span.attributes || []).map(attribute => [attribute.key, decodeValue(attribute.value)]));
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHexId(value: unknown, length: number): boolean {
+  return typeof value === 'string' && value.length === length && /^[0-9a-f]+$/i.test(value) && !/^0+$/.test(value);
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function respond(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+}
+
+function formatCount(value: unknown): string {
+  return typeof value === 'number' ? value.toLocaleString('en-US') : '';
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value !== 0 && Math.abs(value) < 0.01 ? 6 : 4)}`;
+}
@@ -0,0 +1,33 @@
+// Error types for AgentBill SDK
+import { BudgetEvent } from './types';
+
+/**
+ * Thrown by a wrapped call when a budget rule with the 'throw' action has
+ * been reached. The provider is not called.
+ */
+export class BudgetExceededError extends Error {
+  readonly event: BudgetEvent;
+
+  constructor(event: BudgetEvent) {
+    const limit = event.maxCostUsd !== undefined && event.spentUsd >= event.maxCostUsd
+      ? `$${event.spentUsd.toFixed(4)} of $${event.maxCostUsd}`
+      : `${event.tokens} of ${event.maxTokens} tokens`;
+    super(`Budget "${event.rule}" exceeded for ${event.key}: ${limit} used in the last ${event.window}`);
+    this.name = 'BudgetExceededError';
+    this.event = event;
+  }
+}
+
+/**
+ * Thrown when the SDK is given missing or invalid options; `issues` lists
+ * every problem found, not just the first
+ */
+export class AgentBillConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`[AgentBill] Invalid config: ${issues.join('; ')}`);
+    this.name = 'AgentBillConfigError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,363 @@
+// Retrying export queue for AgentBill SDK
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DropPolicy, ExportResult, ExportStats, RetryConfig } from './types';
+
+export const DEFAULT_MAX_QUEUE_SIZE = 2048;
+export const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Largest number of items sent in a single request
+ */
+export const DEFAULT_MAX_BATCH_SIZE = 512;
+export const DEFAULT_EXPORT_TIMEOUT_MS = 30000;
+export const DEFAULT_SCHEDULED_DELAY_MS = 1000;
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 5000;
+
+export interface ExportQueueOptions<T> {
+  /** Used in log messages and spill file names */
+  name: string;
+  /** `signal` is aborted when the send exceeds `exportTimeoutMs` */
+  send: (items: T[], signal: AbortSignal) => Promise<ExportResult>;
+  maxQueueSize?: number;
+  maxBatchSize?: number;
+  /** How long a single send may take before it counts as a retryable failure */
+  exportTimeoutMs?: number;
+  dropPolicy?: DropPolicy;
+  retry?: RetryConfig;
+  spillDirectory?: string;
+  log: (message: string, data?: any) => void;
+}
+
+/**
+ * Bounded in-memory queue that exports items in batches, retrying failed
+ * batches with exponential backoff and jitter. Batches that exhaust their
+ * retries are written to the spill directory (when configured) and replayed
+ * the next time a queue with the same directory starts; otherwise they are
+ * put back on the queue for the next export.
+ */
+export class ExportQueue<T> {
+  private options: ExportQueueOptions<T>;
+  private retry: Required<RetryConfig>;
+  private maxQueueSize: number;
+  private maxBatchSize: number;
+  private exportTimeoutMs: number;
+  private items: T[] = [];
+  private inFlight: Promise<boolean> | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private backoffTimer: NodeJS.Timeout | null = null;
+  /** Number of `flush()` calls waiting for the queue to drain */
+  private flushing = 0;
+  private replaying: Promise<void> = Promise.resolve();
+  private stats: Omit<ExportStats, 'queued'> = {
+    exported: 0,
+    dropped: 0,
+    failed: 0,
+    retries: 0,
+    spilled: 0,
+    replayed: 0,
+  };
+
+  constructor(options: ExportQueueOptions<T>) {
+    this.options = options;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.exportTimeoutMs = options.exportTimeoutMs ?? DEFAULT_EXPORT_TIMEOUT_MS;
+
+    if (options.spillDirectory) {
+      this.replaying = this.replaySpilled(options.spillDirectory);
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  enqueue(item: T) {
+    this.items.push(item);
+    this.enforceLimit();
+  }
+
+  getStats(): ExportStats {
+    return { ...this.stats, queued: this.items.length };
+  }
+
+  /**
+   * Export the items queued at call time. Resolves to false when a batch
+   * could not be delivered; the remaining items stay queued.
+   */
+  drain(): Promise<boolean> {
+    if (!this.inFlight) {
+      this.inFlight = this.drainQueued().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Keep draining until the queue is empty or a batch fails
+   */
+  async flush() {
+    this.flushing++;
+    // A flush (and so shutdown) keeps the process alive through any backoff
+    this.backoffTimer?.ref?.();
+    try {
+      await this.replaying;
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
+      while (this.items.length > 0) {
+        if (!(await this.drain())) break;
+      }
+      if (this.inFlight) {
+        await this.inFlight;
+      }
+    } finally {
+      this.flushing--;
+    }
+  }
+
+  private async drainQueued(): Promise<boolean> {
+    await this.replaying;
+
+    let remaining = this.items.length;
+    while (remaining > 0 && this.items.length > 0) {
+      const batch = this.items.splice(0, Math.min(remaining, this.maxBatchSize));
+      remaining -= batch.length;
+
+      if (!(await this.sendWithRetry(batch))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async sendWithRetry(batch: T[]): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+      let result: ExportResult;
+      try {
+        result = await this.sendWithTimeout(batch);
+      } catch (error) {
+        result = { success: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (result.success) {
+        this.stats.exported += batch.length;
+        return true;
+      }
+
+      if (result.delivered) {
+        this.stats.exported += result.delivered;
+        batch = batch.slice(result.delivered);
+      }
+
+      if (!result.retryable) {
+        // The collector rejected the payload; retrying would not help
+        this.stats.failed += batch.length;
+        console.error(`[AgentBill] Export of ${this.options.name} rejected:`, result.error);
+        return true;
+      }
+
+      if (attempt >= this.retry.maxAttempts) {
+        console.error(`[AgentBill] Export of ${this.options.name} failed after ${attempt} attempts:`, result.error);
+        await this.handleUndelivered(batch);
+        return false;
+      }
+
+      this.stats.retries++;
+      const delayMs = this.backoffDelay(attempt, result.retryAfterMs);
+      this.options.log(`Retrying ${this.options.name} export`, { attempt, delayMs, error: result.error });
+      await new Promise(resolve => {
+        this.backoffTimer = setTimeout(resolve, delayMs);
+        // Background exports must not keep a finished process alive; flush() waits for the retries
+        if (this.flushing === 0) this.backoffTimer.unref?.();
+      });
+      this.backoffTimer = null;
+    }
+  }
+
+  private async sendWithTimeout(batch: T[]): Promise<ExportResult> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<ExportResult>(resolve => {
+      timer = setTimeout(() => {
+        // Senders that honor the signal stop and report what they delivered;
+        // give them a turn of the event loop before the whole batch times out
+        controller.abort();
+        setImmediate(() => resolve({
+          success: false,
+          retryable: true,
+          error: `timed out after ${this.exportTimeoutMs}ms`,
+        }));
+      }, this.exportTimeoutMs);
+      timer.unref?.();
+    });
+    try {
+      return await Promise.race([this.options.send(batch, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with equal jitter, unless the server asked for a delay
+   */
+  private backoffDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.retry.maxDelayMs);
+    }
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.initialDelayMs * 2 ** (attempt - 1));
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  private async handleUndelivered(batch: T[]) {
+    if (this.options.spillDirectory) {
+      try {
+        await this.spill(this.options.spillDirectory, batch);
+        this.stats.spilled += batch.length;
+        return;
+      } catch (error) {
+        console.error(`[AgentBill] Failed to spill ${this.options.name} to disk:`, error);
+      }
+    }
+
+    // Keep the batch in memory and try again later
+    this.items.unshift(...batch);
+    this.enforceLimit();
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.drain();
+    }, this.retry.maxDelayMs);
+    this.retryTimer.unref?.();
+  }
+
+  private enforceLimit() {
+    const overflow = this.items.length - this.maxQueueSize;
+    if (overflow <= 0) return;
+
+    if (this.options.dropPolicy === 'drop_newest') {
+      this.items.splice(this.maxQueueSize, overflow);
+    } else {
+      this.items.splice(0, overflow);
+    }
+    this.stats.dropped += overflow;
+    this.options.log(`Export queue full, dropped ${overflow} ${this.options.name}`);
+  }
+
+  private async spill(directory: string, batch: T[]) {
+    await fs.mkdir(directory, { recursive: true });
+    const suffix = Math.random().toString(16).slice(2, 10);
+    const file = path.join(directory, `${this.options.name}-${Date.now()}-${suffix}.json`);
+    await fs.writeFile(file, JSON.stringify(batch), 'utf8');
+    this.options.log(`Spilled ${batch.length} ${this.options.name} to disk`, { file });
+  }
+
+  private async replaySpilled(directory: string) {
+    let files: string[];
+    try {
+      files = await fs.readdir(directory);
+    } catch {
+      return; // Nothing spilled yet
+    }
+
+    const prefix = `${this.options.name}-`;
+    for (const name of files.filter(file => file.startsWith(prefix) && file.endsWith('.json')).sort()) {
+      const file = path.join(directory, name);
+      try {
+        const batch: T[] = JSON.parse(await fs.readFile(file, 'utf8'));
+        await fs.unlink(file);
+        this.items.push(...batch);
+        this.stats.replayed += batch.length;
+        this.options.log(`Replaying ${batch.length} spilled ${this.options.name}`, { file });
+      } catch (error) {
+        console.error(`[AgentBill] Failed to replay spilled ${this.options.name} from ${file}:`, error);
+      }
+    }
+    this.enforceLimit();
+
+    if (this.items.length > 0) {
+      this.drain();
+    }
+  }
+}
+
+/**
+ * Resolves to whether `promise` settled within `timeoutMs`
+ */
+export async function settlesWithin(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+    timer.unref?.();
+  });
+  try {
+    return await Promise.race([promise.then(() => true), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface ShutdownTarget {
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Pipelines shut down when the process exits; the process hooks are
+ * installed once, by the first pipeline that needs them
+ */
+const exitTargets = new Set<ShutdownTarget>();
+let exitHooksInstalled = false;
+
+/**
+ * Shut `target` down, exporting what it has queued, when the process is
+ * about to exit or receives SIGTERM
+ */
+export function shutdownOnExit(target: ShutdownTarget) {
+  exitTargets.add(target);
+  if (exitHooksInstalled) return;
+  exitHooksInstalled = true;
+
+  process.on('beforeExit', () => {
+    for (const exiting of exitTargets) {
+      exiting.shutdown();
+    }
+  });
+  process.once('SIGTERM', async () => {
+    await Promise.all([...exitTargets].map(exiting => exiting.shutdown()));
+    // Our listener replaced Node's default of exiting; restore it unless the application handles SIGTERM itself
+    if (process.listenerCount('SIGTERM') === 0) {
+      process.kill(process.pid, 'SIGTERM');
+    }
+  });
+}
+
+export function cancelShutdownOnExit(target: ShutdownTarget) {
+  exitTargets.delete(target);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,239 @@
+// Span exporters for AgentBill SDK
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { AgentBillConfig, ConnectionCheckResult, Exporter, ExportResult, OtlpCompression, OtlpProtocol, SpanData } from './types';
+import { buildExportPayload } from './otlp';
+import { encodeTraceRequest } from './protobuf';
+import { DEFAULT_EXPORT_TIMEOUT_MS, parseRetryAfter } from './export-queue';
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Where spans and signals are sent unless `baseUrl` is set
+ */
+export const DEFAULT_BASE_URL = 'https://uenhjwdtnxtchlmqarjo.supabase.co';
+
+const DEFAULT_CONNECTION_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Sends spans to the AgentBill OTLP collector (the default exporter)
+ */
+export class CollectorExporter implements Exporter {
+  readonly name = 'collector';
+  private config: AgentBillConfig;
+
+  constructor(config: AgentBillConfig) {
+    this.config = config;
+  }
+
+  /** The collector's OTLP endpoint */
+  get url(): string {
+    return `${this.config.baseUrl || DEFAULT_BASE_URL}/functions/v1/otel-collector`;
+  }
+
+  async export(spans: SpanData[]): Promise<ExportResult> {
+    const response = await this.post(spans, this.config.exportTimeoutMs ?? DEFAULT_EXPORT_TIMEOUT_MS);
+
+    const result = await toExportResult(response);
+    if (result.success && this.config.debug) {
+      console.log('[AgentBill] Export successful', await response.json().catch(() => undefined));
+    }
+    return result;
+  }
+
+  /**
+   * Send an empty export to check that the collector is reachable and
+   * accepts the API key; never throws
+   */
+  checkConnection(timeoutMs = DEFAULT_CONNECTION_CHECK_TIMEOUT_MS): Promise<ConnectionCheckResult> {
+    return checkEndpoint(this.url, () => this.post([], timeoutMs));
+  }
+
+  private async post(spans: SpanData[], timeoutMs: number): Promise<Response> {
+    const request = await encodeRequest(spans, this.config, this.config.protocol, this.config.compression);
+    return fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...request.headers,
+        'X-API-Key': this.config.apiKey,
+      },
+      body: request.body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  }
+}
+
+/**
+ * Sends spans as OTLP/JSON to any OTLP/HTTP traces endpoint
+ * (e.g. `http://localhost:4318/v1/traces`)
+ */
+export class OtlpHttpExporter implements Exporter {
+  readonly name = 'otlp';
+  private url: string;
+  private headers: Record<string, string>;
+  private config: AgentBillConfig;
+  private protocol?: OtlpProtocol;
+  private compression?: OtlpCompression;
+
+  constructor(options: {
+    url: string;
+    headers?: Record<string, string>;
+    config: AgentBillConfig;
+    /** Overrides `config.protocol` */
+    protocol?: OtlpProtocol;
+    /** Overrides `config.compression` */
+    compression?: OtlpCompression;
+  }) {
+    this.url = options.url;
+    this.headers = options.headers || {};
+    this.config = options.config;
+    this.protocol = options.protocol ?? options.config.protocol;
+    this.compression = options.compression ?? options.config.compression;
+  }
+
+  async export(spans: SpanData[]): Promise<ExportResult> {
+    const response = await this.post(spans, this.config.exportTimeoutMs ?? DEFAULT_EXPORT_TIMEOUT_MS);
+    return toExportResult(response);
+  }
+
+  /**
+   * Send an empty export to check that the endpoint is reachable and
+   * accepts the headers; never throws
+   */
+  checkConnection(timeoutMs = DEFAULT_CONNECTION_CHECK_TIMEOUT_MS): Promise<ConnectionCheckResult> {
+    return checkEndpoint(this.url, () => this.post([], timeoutMs));
+  }
+
+  private async post(spans: SpanData[], timeoutMs: number): Promise<Response> {
+    const request = await encodeRequest(spans, this.config, this.protocol, this.compression);
+    return fetch(this.url, {
+      method: 'POST',
+      headers: { ...request.headers, ...this.headers },
+      body: request.body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  }
+}
+
+/**
+ * Writes each span as a JSON line to stdout (or a custom writer)
+ */
+export class ConsoleExporter implements Exporter {
+  readonly name = 'console';
+  private write: (line: string) => void;
+
+  constructor(options: { write?: (line: string) => void } = {}) {
+    this.write = options.write || (line => process.stdout.write(line));
+  }
+
+  async export(spans: SpanData[]): Promise<ExportResult> {
+    for (const span of spans) {
+      this.write(`${JSON.stringify(span)}\n`);
+    }
+    return { success: true };
+  }
+}
+
+/**
+ * Appends each span as a JSON line to a file
+ */
+export class FileExporter implements Exporter {
+  readonly name = 'file';
+  private filePath: string;
+  private ready: Promise<unknown> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async export(spans: SpanData[]): Promise<ExportResult> {
+    try {
+      this.ready = this.ready || fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.ready;
+      await fs.appendFile(this.filePath, spans.map(span => `${JSON.stringify(span)}\n`).join(''), 'utf8');
+      return { success: true };
+    } catch (error) {
+      this.ready = null;
+      return { success: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * Keeps exported spans in memory, for assertions in tests
+ */
+export class InMemoryExporter implements Exporter {
+  readonly name = 'memory';
+  private spans: SpanData[] = [];
+
+  async export(spans: SpanData[]): Promise<ExportResult> {
+    this.spans.push(...spans);
+    return { success: true };
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset() {
+    this.spans = [];
+  }
+}
+
+/**
+ * Body and content headers of an OTLP/HTTP export request
+ */
+async function encodeRequest(
+  spans: SpanData[],
+  config: AgentBillConfig,
+  protocol: OtlpProtocol = 'http/json',
+  compression: OtlpCompression = 'none'
+): Promise<{ body: string | Buffer; headers: Record<string, string> }> {
+  const payload = buildExportPayload(spans, config);
+  const headers: Record<string, string> = {};
+  let body: string | Buffer;
+  if (protocol === 'http/protobuf') {
+    headers['Content-Type'] = 'application/x-protobuf';
+    body = encodeTraceRequest(payload);
+  } else {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(payload);
+  }
+
+  if (compression === 'gzip') {
+    headers['Content-Encoding'] = 'gzip';
+    body = await gzipAsync(body);
+  }
+  return { body, headers };
+}
+
+async function checkEndpoint(url: string, post: () => Promise<Response>): Promise<ConnectionCheckResult> {
+  const started = Date.now();
+  try {
+    const response = await post();
+    const result = await toExportResult(response);
+    return { ok: result.success, url, status: response.status, latencyMs: Date.now() - started, error: result.error };
+  } catch (error) {
+    return { ok: false, url, latencyMs: Date.now() - started, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * 408, 429 and 5xx responses are retryable; other failures mean the payload
+ * was rejected. Network errors surface as exceptions and are retried too.
+ */
+export async function toExportResult(response: Response): Promise<ExportResult> {
+  if (response.ok) {
+    return { success: true };
+  }
+
+  const error = await response.text().catch(() => response.statusText);
+  return {
+    success: false,
+    retryable: response.status === 408 || response.status === 429 || response.status >= 500,
+    retryAfterMs: parseRetryAfter(response.headers?.get('retry-after') ?? null),
+    error: `${response.status} ${error}`,
+  };
+}
@@ -1,10 +1,35 @@
 // AgentBill SDK - Main Entry Point
 export { AgentBillWrapper } from './wrapper';
 export { AgentBillTracer } from './tracer';
+export { PricingRegistry, DEFAULT_PRICING, PRICING_VERSION } from './pricing';
+export { BUILT_IN_REDACTORS, hashPrompt } from './prompt';
+export { CollectorExporter, ConsoleExporter, FileExporter, InMemoryExporter, OtlpHttpExporter } from './exporters';
+export { AgentBillSpanExporter } from './otel';
+export { startDevCollector, validateExportPayload, validateSignalPayload } from './dev-collector';
+export type { DevCollector, DevCollectorOptions } from './dev-collector';
+export { AgentRun, withCallContext } from './context';
+export { AgentBillConfigError, BudgetExceededError } from './errors';
+export { loadConfig, validateConfig } from './config';
+export { registerProvider } from './registry';
 export * from './types';
 
 import { AgentBillWrapper } from './wrapper';
-import type { AgentBillConfig } from './types';
+import { loadConfig, validateConfig } from './config';
+import type { AgentRun } from './context';
+import type {
+  AgentBillConfig,
+  AttributionContext,
+  CallSpan,
+  ConnectionCheckResult,
+  ExportStats,
+  OpenAICompatibleOptions,
+  TraceContext,
+  TrackSignalParams,
+  UsageRecord,
+  UsageSummary,
+  UsageSummaryOptions,
+  WrapToolOptions,
+} from './types';
 
 /**
  * Initialize AgentBill SDK
@@ -41,10 +66,32 @@ export class AgentBill {
   }
 
   /**
-   * Initialize AgentBill SDK
+   * Initialize AgentBill SDK. Options not passed are read from
+   * `AGENTBILL_API_KEY`, `AGENTBILL_BASE_URL`, `AGENTBILL_CUSTOMER_ID`,
+   * `AGENTBILL_DEBUG` and `AGENTBILL_DISABLED`; throws an
+   * `AgentBillConfigError` listing every invalid option.
    */
-  static init(config: AgentBillConfig): AgentBill {
-    return new AgentBill(config);
+  static init(config: Partial<AgentBillConfig> = {}): AgentBill {
+    const loaded = loadConfig(config);
+    validateConfig(loaded);
+    return new AgentBill(loaded);
+  }
+
+  /**
+   * Check that the configured exporters' endpoints are reachable and accept
+   * the credentials, e.g. at startup; resolves with the outcome rather than
+   * throwing. Console, file and in-memory exporters are not checked.
+   *
+   * @example
+   * ```typescript
+   * const connection = await agentBill.checkConnection();
+   * if (!connection.ok) {
+   *   logger.warn(`AgentBill unreachable at ${connection.url}: ${connection.error}`);
+   * }
+   * ```
+   */
+  checkConnection(timeoutMs?: number): Promise<ConnectionCheckResult> {
+    return this.wrapper.checkConnection(timeoutMs);
   }
 
   /**
@@ -54,6 +101,22 @@ export class AgentBill {
     return this.wrapper.wrapOpenAI(client);
   }
 
+  /**
+   * Wrap an `openai` client pointed at another provider or a self-hosted
+   * gateway (vLLM, Ollama, LiteLLM, ...)
+   *
+   * @example
+   * ```typescript
+   * const llm = agentBill.wrapOpenAICompatible(
+   *   new OpenAI({ baseURL: 'http://vllm.internal:8000/v1', apiKey: 'unused' }),
+   *   { provider: 'vllm', pricing: { 'meta-llama/Llama-3.1-8B-Instruct': { input: 0.05, output: 0.05 } } }
+   * );
+   * ```
+   */
+  wrapOpenAICompatible<T extends object>(client: T, options: OpenAICompatibleOptions): T {
+    return this.wrapper.wrapOpenAICompatible(client, options);
+  }
+
   /**
    * Wrap an Anthropic client to automatically track usage
    */
@@ -83,37 +146,201 @@ export class AgentBill {
   }
 
   /**
-   * Track a custom signal/event with revenue
-   */
-  async trackSignal(params: { event_name: string; revenue?: number; data?: Record<string, any> }): Promise<void> {
-    const config = this.wrapper['config'];
-    const url = `${config.baseUrl || 'https://bgwyprqxtdreuutzpbgw.supabase.co'}/functions/v1/record-signals`;
-    
-    try {
-      await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          event_name: params.event_name,
-          revenue: params.revenue || 0,
-          customer_id: config.customerId,
-          timestamp: Date.now(),
-          data: params.data || {},
-          data_source: 'sdk' // Mark as SDK integration
-        })
-      });
-      
-      if (config.debug) {
-        console.log(`[AgentBill] Signal tracked: ${params.event_name}, revenue: $${params.revenue || 0}`);
-      }
-    } catch (error) {
-      if (config.debug) {
-        console.error('[AgentBill] Failed to track signal:', error);
-      }
-    }
+   * Wrap a Google Gen AI client (Gemini API or Vertex AI) to automatically track usage
+   */
+  wrapGemini<T extends object>(client: T): T {
+    return this.wrapper.wrapGemini(client);
+  }
+
+  /**
+   * Wrap a Cohere client to automatically track usage
+   */
+  wrapCohere<T extends object>(client: T): T {
+    return this.wrapper.wrapCohere(client);
+  }
+
+  /**
+   * Wrap a client of any provider in the registry, including in-house SDKs
+   * described with `registerProvider()`
+   *
+   * @example
+   * ```typescript
+   * registerProvider({
+   *   name: 'acme',
+   *   methods: [{
+   *     path: 'llm.generate',
+   *     request: params => ({ model: params.model, prompt: params }),
+   *     response: response => ({ promptTokens: response.tokensIn, completionTokens: response.tokensOut }),
+   *   }],
+   * });
+   * const acme = agentBill.wrap(new AcmeClient(), 'acme');
+   * ```
+   */
+  wrap<T extends object>(client: T, provider: string): T {
+    return this.wrapper.wrap(client, provider);
+  }
+
+  /**
+   * Attribute every call made inside `fn` to a customer, user or session,
+   * without creating a separate AgentBill instance per customer
+   *
+   * @example
+   * ```typescript
+   * app.post('/chat', (req, res) =>
+   *   agentBill.withContext({ customerId: req.tenantId, userId: req.userId }, async () => {
+   *     res.json(await openai.chat.completions.create({ ... }));
+   *   })
+   * );
+   * ```
+   */
+  withContext<R>(attribution: AttributionContext, fn: () => R): R {
+    return this.wrapper.withContext(attribution, fn);
+  }
+
+  /**
+   * Run `fn` inside a traced step. LLM, embedding and tool calls made while
+   * it runs (including in nested async code) become children of the step.
+   *
+   * @example
+   * ```typescript
+   * await agentBill.trace('research', async () => {
+   *   await openai.chat.completions.create({ ... });
+   * });
+   * ```
+   */
+  trace<R>(
+    name: string,
+    fn: (context: TraceContext) => R | Promise<R>,
+    attributes?: Record<string, string | number | boolean>
+  ): Promise<R> {
+    return this.wrapper.trace(name, fn, attributes);
+  }
+
+  /**
+   * Record a call made without a wrapped client (raw `fetch`, a local model,
+   * a LangChain runnable); the span matches those of wrapped clients
+   *
+   * @example
+   * ```typescript
+   * const started = Date.now();
+   * const body = await (await fetch('https://llm.internal/generate', { ... })).json();
+   * agentBill.recordUsage({
+   *   provider: 'vllm',
+   *   model: 'llama-3.1-8b',
+   *   promptTokens: body.usage.prompt_tokens,
+   *   completionTokens: body.usage.completion_tokens,
+   *   latencyMs: Date.now() - started,
+   * });
+   * ```
+   */
+  recordUsage(record: UsageRecord): TraceContext {
+    return this.wrapper.recordUsage(record);
+  }
+
+  /**
+   * Trace a call made by hand while it runs. Latency, errors and cost are
+   * recorded like those of wrapped clients.
+   *
+   * @example
+   * ```typescript
+   * const answer = await agentBill.span('ollama.generate', async span => {
+   *   const model = span.setRequest({ provider: 'ollama', model: 'llama3.2', prompt });
+   *   const body = await ollama.generate({ model, prompt });
+   *   span.setUsage({ promptTokens: body.prompt_eval_count, completionTokens: body.eval_count });
+   *   return body.response;
+   * });
+   * ```
+   */
+  span<R>(name: string, fn: (span: CallSpan) => R | Promise<R>): Promise<R> {
+    return this.wrapper.span(name, fn);
+  }
+
+  /**
+   * Wrap a tool implementation so each run is traced. Runs answering a tool
+   * call from a wrapped client's response become children of that call's span.
+   *
+   * @example
+   * ```typescript
+   * const getWeather = agentBill.wrapTool('get_weather', async (args: { city: string }, callId: string) => {
+   *   return weatherApi.current(args.city);
+   * }, { callId: (_args, callId) => callId });
+   *
+   * for (const call of completion.choices[0].message.tool_calls ?? []) {
+   *   await getWeather(JSON.parse(call.function.arguments), call.id);
+   * }
+   * ```
+   */
+  wrapTool<A extends any[], R>(
+    name: string,
+    fn: (...args: A) => R | Promise<R>,
+    options?: WrapToolOptions<A>
+  ): (...args: A) => Promise<R> {
+    return this.wrapper.wrapTool(name, fn, options);
+  }
+
+  /**
+   * Start an agent run; steps and calls made through it share one trace ID
+   *
+   * @example
+   * ```typescript
+   * const run = agentBill.startAgentRun('support-agent');
+   * try {
+   *   await run.step('plan', () => openai.chat.completions.create({ ... }));
+   *   await run.step('answer', () => openai.chat.completions.create({ ... }));
+   * } finally {
+   *   run.end();
+   * }
+   * ```
+   */
+  startAgentRun(name: string, attributes?: Record<string, string | number | boolean>): AgentRun {
+    return this.wrapper.startAgentRun(name, attributes);
+  }
+
+  /**
+   * Track a custom signal/event with revenue. Signals are batched and retried
+   * like spans; inside a `trace()` step or agent run they are tied to that
+   * trace. Resolves to the signal's idempotency key.
+   *
+   * @example
+   * ```typescript
+   * await agentBill.trackSignal({
+   *   event_name: 'ticket_resolved',
+   *   revenue: 2.5,
+   *   idempotencyKey: `ticket-${ticket.id}`,
+   * });
+   * ```
+   */
+  async trackSignal(params: TrackSignalParams): Promise<string> {
+    return this.wrapper.trackSignal(params);
+  }
+
+  /**
+   * Tokens, calls, errors, cost, revenue and margin recorded in this process,
+   * without a round trip to the dashboard
+   *
+   * @example
+   * ```typescript
+   * const today = new Date();
+   * today.setHours(0, 0, 0, 0);
+   * const { groups } = agentBill.getUsageSummary({ groupBy: ['customer', 'model'], since: today });
+   * ```
+   */
+  getUsageSummary(options?: UsageSummaryOptions): UsageSummary {
+    return this.wrapper.getUsageSummary(options);
+  }
+
+  /**
+   * Counters for exported, retried, dropped and spilled spans
+   */
+  getExportStats(): ExportStats {
+    return this.wrapper.getExportStats();
+  }
+
+  /**
+   * The same counters for revenue signals
+   */
+  getSignalExportStats(): ExportStats {
+    return this.wrapper.getSignalExportStats();
   }
 
   /**
@@ -122,6 +349,16 @@ export class AgentBill {
   async flush(): Promise<void> {
     await this.wrapper.flush();
   }
+
+  /**
+   * Export pending telemetry and stop exporting, waiting at most `timeoutMs`
+   * (default: 5000). Call it before your process exits; pending spans are
+   * also flushed automatically on `beforeExit` and SIGTERM unless
+   * `flushOnExit` is false.
+   */
+  async shutdown(timeoutMs?: number): Promise<void> {
+    await this.wrapper.shutdown(timeoutMs);
+  }
 }
 
 // Export default instance
@@ -0,0 +1,270 @@
+// In-process usage ledger for AgentBill SDK
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  LedgerConfig,
+  LedgerEntry,
+  SignalRecord,
+  SpanData,
+  UsageGroupKey,
+  UsageSummary,
+  UsageSummaryOptions,
+  UsageTotals,
+} from './types';
+import { decodeValue } from './otlp';
+
+const DEFAULT_MAX_ENTRIES = 50000;
+
+/**
+ * Span attributes a ledger row is built from; the rest are never decoded
+ */
+const CALL_ATTRIBUTES = new Set([
+  'gen_ai.system',
+  'customer.id',
+  'gen_ai.request.model',
+  'gen_ai.response.model',
+  'gen_ai.usage.prompt_tokens',
+  'gen_ai.usage.completion_tokens',
+  'gen_ai.usage.total_tokens',
+  'gen_ai.usage.cost_usd',
+]);
+
+/**
+ * Columns of CSV ledger files, in order
+ */
+const CSV_COLUMNS: Array<keyof LedgerEntry> = [
+  'timestamp', 'type', 'customer', 'provider', 'model', 'operation', 'event',
+  'promptTokens', 'completionTokens', 'totalTokens', 'costUsd', 'revenueUsd',
+  'error', 'traceId', 'spanId', 'idempotencyKey',
+];
+
+/**
+ * Keeps a row for every LLM call span and revenue signal, in memory and
+ * optionally appended to a JSON Lines or CSV file, and aggregates them into
+ * cost, revenue and margin summaries
+ */
+export class UsageLedger {
+  /** Ring buffer of the latest `maxEntries` rows; `oldest` is where it starts once full */
+  private entries: LedgerEntry[] = [];
+  private oldest = 0;
+  /** Idempotency keys of the signals still held, to skip re-tracked ones */
+  private signalKeys = new Set<string>();
+  private maxEntries: number;
+  private file?: string;
+  private format: 'jsonl' | 'csv';
+  private unwritten: LedgerEntry[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: LedgerConfig = {}) {
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.file = config.file;
+    this.format = config.format || (config.file?.toLowerCase().endsWith('.csv') ? 'csv' : 'jsonl');
+  }
+
+  /**
+   * Record an ended span; only LLM calls (spans with `gen_ai.system`) count
+   */
+  recordSpan(span: SpanData) {
+    const attributes: Record<string, any> = {};
+    for (const attribute of span.attributes) {
+      if (CALL_ATTRIBUTES.has(attribute.key)) {
+        attributes[attribute.key] = decodeValue(attribute.value);
+      }
+    }
+    if (attributes['gen_ai.system'] === undefined) return;
+
+    this.add({
+      timestamp: Math.round(Number(span.endTimeUnixNano || span.startTimeUnixNano) / 1e6),
+      type: 'call',
+      customer: attributes['customer.id'],
+      provider: attributes['gen_ai.system'],
+      model: attributes['gen_ai.response.model'] ?? attributes['gen_ai.request.model'],
+      operation: span.name,
+      promptTokens: attributes['gen_ai.usage.prompt_tokens'] || 0,
+      completionTokens: attributes['gen_ai.usage.completion_tokens'] || 0,
+      totalTokens: attributes['gen_ai.usage.total_tokens']
+        ?? (attributes['gen_ai.usage.prompt_tokens'] || 0) + (attributes['gen_ai.usage.completion_tokens'] || 0),
+      costUsd: attributes['gen_ai.usage.cost_usd'] || 0,
+      revenueUsd: 0,
+      error: span.status?.code === 2,
+      traceId: span.traceId,
+      spanId: span.spanId,
+    });
+  }
+
+  /**
+   * Record a revenue signal; a signal re-tracked with the idempotency key of
+   * one still held is skipped, so retries do not count its revenue twice
+   */
+  recordSignal(signal: SignalRecord) {
+    if (this.signalKeys.has(signal.idempotency_key)) return;
+    this.signalKeys.add(signal.idempotency_key);
+
+    this.add({
+      timestamp: signal.timestamp,
+      type: 'signal',
+      customer: signal.customer_id,
+      event: signal.event_name,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      revenueUsd: signal.revenue,
+      error: false,
+      traceId: signal.trace_id,
+      spanId: signal.span_id,
+      idempotencyKey: signal.idempotency_key,
+    });
+  }
+
+  private add(entry: LedgerEntry) {
+    if (this.entries.length < this.maxEntries) {
+      this.entries.push(entry);
+    } else {
+      const dropped = this.entries[this.oldest];
+      if (dropped.idempotencyKey) this.signalKeys.delete(dropped.idempotencyKey);
+      this.entries[this.oldest] = entry;
+      this.oldest = (this.oldest + 1) % this.maxEntries;
+    }
+    if (this.file) {
+      this.unwritten.push(entry);
+      this.scheduleWrite();
+    }
+  }
+
+  /**
+   * Totals since `since` (default: everything still held), overall and per
+   * combination of the `groupBy` keys. Revenue is not tied to a model or
+   * provider, so it is grouped under `null` for those keys.
+   */
+  getSummary(options: UsageSummaryOptions = {}): UsageSummary {
+    const groupBy = options.groupBy || [];
+    const since = options.since === undefined ? undefined : new Date(options.since).getTime();
+    const until = options.until === undefined ? undefined : new Date(options.until).getTime();
+
+    const totals = emptyTotals();
+    const groups = new Map<string, UsageSummary['groups'][number]>();
+    for (const entry of this.held()) {
+      if (since !== undefined && entry.timestamp < since) continue;
+      if (until !== undefined && entry.timestamp >= until) continue;
+      if (options.customerId !== undefined && entry.customer !== options.customerId) continue;
+
+      const keys = Object.fromEntries(groupBy.map(key => [key, entry[key] ?? null])) as Partial<Record<UsageGroupKey, string | null>>;
+      const id = JSON.stringify(groupBy.map(key => keys[key]));
+      let group = groups.get(id);
+      if (!group) {
+        group = { ...keys, ...emptyTotals() };
+        groups.set(id, group);
+      }
+      addEntry(group, entry);
+      addEntry(totals, entry);
+    }
+
+    return {
+      since: since !== undefined ? new Date(since) : this.entries.length > 0 ? new Date(this.entries[this.oldest].timestamp) : undefined,
+      until: new Date(until ?? Date.now()),
+      totals: withMargin(totals),
+      groups: [...groups.values()].map(withMargin).sort((a, b) => b.costUsd - a.costUsd),
+    };
+  }
+
+  /**
+   * Rows still held, oldest first
+   */
+  private *held(): IterableIterator<LedgerEntry> {
+    for (let i = 0; i < this.entries.length; i++) {
+      yield this.entries[(this.oldest + i) % this.entries.length];
+    }
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.write();
+    }, 1000);
+    this.writeTimer.unref?.();
+  }
+
+  /**
+   * Append unwritten rows to the ledger file; writes are serialized so rows
+   * keep their order
+   */
+  private write(): Promise<void> {
+    const file = this.file;
+    const rows = this.unwritten.splice(0);
+    if (!file || rows.length === 0) return this.writing;
+
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        let text = rows.map(row => this.format === 'csv' ? csvRow(row) : JSON.stringify(row)).join('\n') + '\n';
+        if (this.format === 'csv' && !(await fileHasContent(file))) {
+          text = CSV_COLUMNS.join(',') + '\n' + text;
+        }
+        await fs.appendFile(file, text, 'utf8');
+      } catch (error) {
+        console.error(`[AgentBill] Failed to write usage ledger to ${file}:`, error);
+      }
+    });
+    return this.writing;
+  }
+
+  async flush() {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    await this.write();
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    errors: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    signals: 0,
+    revenueUsd: 0,
+    marginUsd: 0,
+  };
+}
+
+function addEntry(totals: UsageTotals, entry: LedgerEntry) {
+  if (entry.type === 'signal') {
+    totals.signals++;
+    totals.revenueUsd += entry.revenueUsd;
+    return;
+  }
+  totals.calls++;
+  if (entry.error) totals.errors++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  totals.costUsd += entry.costUsd;
+}
+
+function withMargin<T extends UsageTotals>(totals: T): T {
+  return { ...totals, marginUsd: totals.revenueUsd - totals.costUsd };
+}
+
+function csvRow(entry: LedgerEntry): string {
+  return CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+async function fileHasContent(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).size > 0;
+  } catch {
+    return false;
+  }
+}
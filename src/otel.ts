@@ -0,0 +1,95 @@
+// OpenTelemetry SDK interop for AgentBill SDK
+import { AgentBillTracer } from './tracer';
+import { encodeAttributes } from './otlp';
+import { AgentBillSpanExporterConfig, OtelReadableSpan, SpanData } from './types';
+
+/**
+ * OpenTelemetry `ExportResultCode`
+ */
+const EXPORT_SUCCESS = 0;
+
+/**
+ * OpenTelemetry `SpanKind` values mapped onto AgentBill span kinds
+ */
+const SPAN_KINDS: Record<number, SpanData['kind']> = {
+  0: 'internal',
+  1: 'server',
+  2: 'client',
+  3: 'client', // PRODUCER
+  4: 'server', // CONSUMER
+};
+
+/**
+ * A `SpanExporter` for an existing OpenTelemetry `TracerProvider`, forwarding
+ * its spans through AgentBill's retrying export pipeline.
+ *
+ * @example
+ * ```typescript
+ * provider.addSpanProcessor(new BatchSpanProcessor(
+ *   new AgentBillSpanExporter({ apiKey: 'your-api-key' })
+ * ));
+ * ```
+ */
+export class AgentBillSpanExporter {
+  private tracer: AgentBillTracer;
+  private filter: (span: OtelReadableSpan) => boolean;
+
+  constructor(config: AgentBillSpanExporterConfig) {
+    this.tracer = new AgentBillTracer(config);
+    this.filter = config.filter || isGenAISpan;
+  }
+
+  export(spans: OtelReadableSpan[], resultCallback: (result: { code: number; error?: Error }) => void): void {
+    for (const span of spans) {
+      if (this.filter(span)) {
+        this.tracer.recordSpan(toSpanData(span));
+      }
+    }
+    // Delivery is handled (and retried) by the AgentBill export queue
+    resultCallback({ code: EXPORT_SUCCESS });
+  }
+
+  forceFlush(): Promise<void> {
+    return this.tracer.flush();
+  }
+
+  shutdown(): Promise<void> {
+    return this.tracer.shutdown();
+  }
+}
+
+function isGenAISpan(span: OtelReadableSpan): boolean {
+  return Object.keys(span.attributes).some(key => key.startsWith('gen_ai.'));
+}
+
+function toSpanData(span: OtelReadableSpan): SpanData {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId ?? span.parentSpanId,
+    name: span.name,
+    kind: SPAN_KINDS[span.kind] || 'internal',
+    startTimeUnixNano: hrTimeToNanos(span.startTime),
+    endTimeUnixNano: hrTimeToNanos(span.endTime),
+    attributes: encodeAttributes(span.attributes),
+    status: { code: span.status.code, message: span.status.message },
+    events: span.events.map(event => ({
+      name: event.name,
+      timeUnixNano: hrTimeToNanos(event.time),
+      attributes: encodeAttributes(event.attributes || {}),
+    })),
+    links: (span.links || []).map(link => ({
+      traceId: link.context.traceId,
+      spanId: link.context.spanId,
+      attributes: encodeAttributes(link.attributes || {}),
+    })),
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+function hrTimeToNanos([seconds, nanos]: [number, number]): string {
+  return (BigInt(seconds) * BigInt(1e9) + BigInt(nanos)).toString();
+}
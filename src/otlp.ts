@@ -0,0 +1,137 @@
+// OTLP payload encoding for AgentBill SDK
+import { AgentBillConfig, OtelExportPayload, OtlpKeyValue, OtlpSpan, SpanData } from './types';
+
+/**
+ * Reported as `telemetry.sdk.version` and the instrumentation scope version;
+ * kept in step with package.json
+ */
+export const SDK_VERSION = '1.0.0';
+
+/**
+ * OTLP `Span.SpanKind` values
+ */
+const SPAN_KINDS: Record<SpanData['kind'], number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+/**
+ * Wrap spans in an OTLP/JSON ExportTraceServiceRequest
+ */
+export function buildExportPayload(spans: SpanData[], config: AgentBillConfig): OtelExportPayload {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: resourceAttributes(config),
+      },
+      scopeSpans: [{
+        scope: {
+          name: 'agentbill-instrumentation',
+          version: SDK_VERSION,
+        },
+        spans: spans.map(toOtlpSpan),
+      }],
+    }],
+  };
+}
+
+/**
+ * Resource attributes from the `resource` config; unset entries are left out
+ */
+export function resourceAttributes(config: AgentBillConfig): OtlpKeyValue[] {
+  const resource = config.resource || {};
+  return encodeAttributes({
+    ...resource.attributes,
+    'service.name': resource.serviceName || 'agentbill-sdk',
+    'service.version': resource.serviceVersion,
+    'deployment.environment.name': resource.environment,
+    'deployment.id': resource.deployment,
+    'host.name': resource.host,
+    'telemetry.sdk.name': 'agentbill',
+    'telemetry.sdk.language': 'nodejs',
+    'telemetry.sdk.version': SDK_VERSION,
+    'customer.id': config.customerId,
+  });
+}
+
+function toOtlpSpan(span: SpanData): OtlpSpan {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    kind: SPAN_KINDS[span.kind] ?? 0,
+    startTimeUnixNano: span.startTimeUnixNano,
+    endTimeUnixNano: span.endTimeUnixNano,
+    attributes: span.attributes,
+    droppedAttributesCount: span.droppedAttributesCount || 0,
+    events: (span.events || []).map(event => ({
+      timeUnixNano: event.timeUnixNano,
+      name: event.name,
+      attributes: event.attributes || [],
+      droppedAttributesCount: 0,
+    })),
+    droppedEventsCount: span.droppedEventsCount || 0,
+    links: (span.links || []).map(link => ({
+      traceId: link.traceId,
+      spanId: link.spanId,
+      attributes: link.attributes || [],
+      droppedAttributesCount: 0,
+    })),
+    droppedLinksCount: span.droppedLinksCount || 0,
+    status: span.status,
+  };
+}
+
+/**
+ * Encode attributes as OTLP KeyValues, skipping undefined values
+ */
+export function encodeAttributes(attributes: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: encodeValue(value) }));
+}
+
+/**
+ * Encode an attribute value as an OTLP AnyValue. Integers are int64, which
+ * OTLP/JSON carries as decimal strings.
+ */
+export function encodeValue(value: any): any {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  } else if (typeof value === 'number') {
+    return Number.isSafeInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  } else if (typeof value === 'bigint') {
+    return { intValue: value.toString() };
+  } else if (typeof value === 'boolean') {
+    return { boolValue: value };
+  } else if (Array.isArray(value)) {
+    return { arrayValue: { values: value.filter(item => item !== undefined).map(encodeValue) } };
+  } else if (value instanceof Uint8Array) {
+    return { bytesValue: Buffer.from(value).toString('base64') };
+  } else if (value !== null && typeof value === 'object') {
+    return { kvlistValue: { values: encodeAttributes(value) } };
+  }
+  return { stringValue: String(value) };
+}
+
+/**
+ * Decode an OTLP AnyValue back into a plain value; integers come back as
+ * numbers, arrays and key-value lists as arrays and objects
+ */
+export function decodeValue(value: any): any {
+  if (!value || typeof value !== 'object') return undefined;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('arrayValue' in value) return (value.arrayValue?.values || []).map(decodeValue);
+  if ('kvlistValue' in value) {
+    return Object.fromEntries((value.kvlistValue?.values || []).map((kv: OtlpKeyValue) => [kv.key, decodeValue(kv.value)]));
+  }
+  if ('bytesValue' in value) return value.bytesValue;
+  return undefined;
+}
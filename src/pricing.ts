@@ -0,0 +1,280 @@
+// Model pricing registry for AgentBill SDK
+import { CostResult, CostUsage, ModelPricing, PricingTable } from './types';
+
+/**
+ * Version of the bundled pricing table, recorded on every costed span
+ */
+export const PRICING_VERSION = '2025-06-01';
+
+const OPENAI_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25, batchInput: 1.25, batchOutput: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075, batchInput: 0.075, batchOutput: 0.3 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5, batchInput: 1, batchOutput: 4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1, batchInput: 0.2, batchOutput: 0.8 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025, batchInput: 0.05, batchOutput: 0.2 },
+  'gpt-4-turbo': { input: 10, output: 30, batchInput: 5, batchOutput: 15 },
+  'gpt-4': { input: 30, output: 60, batchInput: 15, batchOutput: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5, batchInput: 0.25, batchOutput: 0.75 },
+  'gpt-3.5-turbo-instruct': { input: 1.5, output: 2 },
+  'o1': { input: 15, output: 60, cachedInput: 7.5, batchInput: 7.5, batchOutput: 30 },
+  'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55, batchInput: 0.55, batchOutput: 2.2 },
+  'o3': { input: 2, output: 8, cachedInput: 0.5, batchInput: 1, batchOutput: 4 },
+  'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55, batchInput: 0.55, batchOutput: 2.2 },
+  'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275, batchInput: 0.55, batchOutput: 2.2 },
+  'text-embedding-3-small': { input: 0.02, batchInput: 0.01 },
+  'text-embedding-3-large': { input: 0.13, batchInput: 0.065 },
+  'text-embedding-ada-002': { input: 0.1, batchInput: 0.05 },
+  'gpt-image-1': { input: 5, output: 40, cachedInput: 1.25 },
+  'dall-e-3': {
+    image: {
+      'standard/1024x1024': 0.04,
+      'standard/1024x1792': 0.08,
+      'standard/1792x1024': 0.08,
+      'hd/1024x1024': 0.08,
+      'hd/1024x1792': 0.12,
+      'hd/1792x1024': 0.12,
+    },
+  },
+  'dall-e-2': { image: { '1024x1024': 0.02, '512x512': 0.018, '256x256': 0.016 } },
+  'whisper-1': { audioPerMinute: 0.006 },
+  'tts-1': { characters: 15 },
+  'tts-1-hd': { characters: 30 },
+  'omni-moderation': { input: 0 },
+  'text-moderation': { input: 0 },
+};
+
+const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75, batchInput: 7.5, batchOutput: 37.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75, batchInput: 1.5, batchOutput: 7.5 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75, batchInput: 1.5, batchOutput: 7.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75, batchInput: 1.5, batchOutput: 7.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1, batchInput: 0.4, batchOutput: 2 },
+  'claude-3-opus': { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75, batchInput: 7.5, batchOutput: 37.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3, batchInput: 0.125, batchOutput: 0.625 },
+};
+
+const MISTRAL_PRICING: Record<string, ModelPricing> = {
+  'mistral-large': { input: 2, output: 6 },
+  'mistral-medium': { input: 0.4, output: 2 },
+  'mistral-small': { input: 0.1, output: 0.3 },
+  'codestral': { input: 0.3, output: 0.9 },
+  'ministral-8b': { input: 0.1, output: 0.1 },
+  'ministral-3b': { input: 0.04, output: 0.04 },
+  'open-mistral-nemo': { input: 0.15, output: 0.15 },
+  'pixtral-large': { input: 2, output: 6 },
+  'mistral-embed': { input: 0.1 },
+};
+
+const GEMINI_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31, batchInput: 0.625, batchOutput: 5 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075, batchInput: 0.15, batchOutput: 1.25 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.025, batchInput: 0.05, batchOutput: 0.2 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025, batchInput: 0.05, batchOutput: 0.2 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3, batchInput: 0.0375, batchOutput: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5, cachedInput: 0.3125 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+  'gemini-embedding-001': { input: 0.15 },
+  'text-embedding-004': { input: 0 },
+};
+
+const COHERE_PRICING: Record<string, ModelPricing> = {
+  'command-a': { input: 2.5, output: 10 },
+  'command-r-plus': { input: 2.5, output: 10 },
+  'command-r': { input: 0.15, output: 0.6 },
+  'command-r7b': { input: 0.0375, output: 0.15 },
+  'embed-v4.0': { input: 0.12 },
+  'embed-english-v3.0': { input: 0.1 },
+  'embed-multilingual-v3.0': { input: 0.1 },
+  'embed-english-light-v3.0': { input: 0.1 },
+  'embed-multilingual-light-v3.0': { input: 0.1 },
+  'rerank-v3.5': { searchUnits: 2 },
+  'rerank-english-v3.0': { searchUnits: 2 },
+  'rerank-multilingual-v3.0': { searchUnits: 2 },
+};
+
+const GROQ_PRICING: Record<string, ModelPricing> = {
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { input: 0.2, output: 0.6 },
+  'gemma2-9b-it': { input: 0.2, output: 0.2 },
+  'qwen-qwq-32b': { input: 0.29, output: 0.39 },
+};
+
+const TOGETHER_PRICING: Record<string, ModelPricing> = {
+  'meta-llama/Llama-3.3-70B-Instruct-Turbo': { input: 0.88, output: 0.88 },
+  'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo': { input: 0.18, output: 0.18 },
+  'meta-llama/Meta-Llama-3.1-405B-Instruct-Turbo': { input: 3.5, output: 3.5 },
+  'deepseek-ai/DeepSeek-V3': { input: 1.25, output: 1.25 },
+  'deepseek-ai/DeepSeek-R1': { input: 3, output: 7 },
+  'Qwen/Qwen2.5-72B-Instruct-Turbo': { input: 1.2, output: 1.2 },
+};
+
+const DEEPSEEK_PRICING: Record<string, ModelPricing> = {
+  'deepseek-chat': { input: 0.27, output: 1.1, cachedInput: 0.07 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19, cachedInput: 0.14 },
+};
+
+const XAI_PRICING: Record<string, ModelPricing> = {
+  'grok-4': { input: 3, output: 15, cachedInput: 0.75 },
+  'grok-3': { input: 3, output: 15, cachedInput: 0.75 },
+  'grok-3-mini': { input: 0.3, output: 0.5, cachedInput: 0.075 },
+};
+
+const BEDROCK_PRICING: Record<string, ModelPricing> = {
+  'anthropic.claude-opus-4': ANTHROPIC_PRICING['claude-opus-4'],
+  'anthropic.claude-sonnet-4': ANTHROPIC_PRICING['claude-sonnet-4'],
+  'anthropic.claude-3-7-sonnet': ANTHROPIC_PRICING['claude-3-7-sonnet'],
+  'anthropic.claude-3-5-sonnet': ANTHROPIC_PRICING['claude-3-5-sonnet'],
+  'anthropic.claude-3-5-haiku': ANTHROPIC_PRICING['claude-3-5-haiku'],
+  'anthropic.claude-3-opus': ANTHROPIC_PRICING['claude-3-opus'],
+  'anthropic.claude-3-haiku': ANTHROPIC_PRICING['claude-3-haiku'],
+  'amazon.nova-pro': { input: 0.8, output: 3.2, cachedInput: 0.2, batchInput: 0.4, batchOutput: 1.6 },
+  'amazon.nova-lite': { input: 0.06, output: 0.24, cachedInput: 0.015, batchInput: 0.03, batchOutput: 0.12 },
+  'amazon.nova-micro': { input: 0.035, output: 0.14, cachedInput: 0.00875, batchInput: 0.0175, batchOutput: 0.07 },
+  'amazon.titan-text-express': { input: 0.2, output: 0.6 },
+  'amazon.titan-text-lite': { input: 0.15, output: 0.2 },
+  'amazon.titan-embed-text': { input: 0.02 },
+  'meta.llama3-1-405b-instruct': { input: 2.4, output: 2.4 },
+  'meta.llama3-1-70b-instruct': { input: 0.72, output: 0.72 },
+  'meta.llama3-1-8b-instruct': { input: 0.22, output: 0.22 },
+  'meta.llama3-70b-instruct': { input: 2.65, output: 3.5 },
+  'meta.llama3-8b-instruct': { input: 0.3, output: 0.6 },
+  'mistral.mistral-large': { input: 4, output: 12 },
+  'mistral.mistral-small': { input: 1, output: 3 },
+  'mistral.mixtral-8x7b-instruct': { input: 0.45, output: 0.7 },
+  'mistral.mistral-7b-instruct': { input: 0.15, output: 0.2 },
+  'cohere.command-r-plus': { input: 3, output: 15 },
+  'cohere.command-r': { input: 0.5, output: 1.5 },
+};
+
+/**
+ * Bundled pricing table, in USD per 1M tokens unless noted otherwise
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  openai: OPENAI_PRICING,
+  azure_openai: OPENAI_PRICING,
+  anthropic: ANTHROPIC_PRICING,
+  mistral: MISTRAL_PRICING,
+  bedrock: BEDROCK_PRICING,
+  gemini: GEMINI_PRICING,
+  cohere: COHERE_PRICING,
+  groq: GROQ_PRICING,
+  together: TOGETHER_PRICING,
+  deepseek: DEEPSEEK_PRICING,
+  xai: XAI_PRICING,
+};
+
+export class PricingRegistry {
+  private table: PricingTable;
+
+  constructor(overrides?: PricingTable) {
+    this.table = {};
+    for (const provider of Object.keys(DEFAULT_PRICING)) {
+      this.table[provider] = { ...DEFAULT_PRICING[provider] };
+    }
+    for (const provider of Object.keys(overrides || {})) {
+      this.table[provider] = { ...this.table[provider], ...overrides![provider] };
+    }
+  }
+
+  /**
+   * Add or override prices for one provider's models
+   */
+  addModels(provider: string, models: Record<string, ModelPricing>) {
+    this.table[provider] = { ...this.table[provider], ...models };
+  }
+
+  /**
+   * Find pricing for a model, falling back to the longest matching prefix so
+   * that dated snapshots (e.g. `gpt-4o-2024-08-06`) resolve to their family
+   */
+  lookup(provider: string, model: string): ModelPricing | undefined {
+    const models = this.table[provider];
+    if (!models) return undefined;
+
+    const name = model.toLowerCase();
+    const match = this.longestPrefixMatch(models, name);
+    if (match || provider !== 'bedrock') return match;
+
+    // Bedrock cross-region inference profiles prefix the model id (us., eu., apac.)
+    const dot = name.indexOf('.');
+    return dot > 0 ? this.longestPrefixMatch(models, name.slice(dot + 1)) : undefined;
+  }
+
+  calculateCost(provider: string, model: string, usage: CostUsage): CostResult {
+    const pricing = this.lookup(provider, model);
+    if (!pricing) {
+      return { costUsd: 0, known: false };
+    }
+
+    let costUsd = 0;
+    let known = true;
+
+    const addTokens = (tokens: number | undefined, price: number | undefined) => {
+      if (!tokens) return;
+      if (price === undefined) {
+        known = false;
+        return;
+      }
+      costUsd += (tokens / 1_000_000) * price;
+    };
+
+    const inputPrice = usage.batch ? pricing.batchInput ?? pricing.input : pricing.input;
+    const outputPrice = usage.batch ? pricing.batchOutput ?? pricing.output : pricing.output;
+
+    addTokens(usage.inputTokens, inputPrice);
+    addTokens(usage.outputTokens, outputPrice);
+    addTokens(usage.cachedInputTokens, pricing.cachedInput ?? inputPrice);
+    addTokens(usage.cacheWriteTokens, pricing.cacheWrite ?? inputPrice);
+
+    if (usage.images) {
+      const price = this.imagePrice(pricing, usage.imageSize, usage.imageQuality);
+      if (price === undefined) {
+        known = false;
+      } else {
+        costUsd += usage.images * price;
+      }
+    }
+
+    if (usage.audioSeconds) {
+      if (pricing.audioPerMinute === undefined) {
+        known = false;
+      } else {
+        costUsd += (usage.audioSeconds / 60) * pricing.audioPerMinute;
+      }
+    }
+
+    addTokens(usage.characters, pricing.characters);
+
+    if (usage.searchUnits) {
+      if (pricing.searchUnits === undefined) {
+        known = false;
+      } else {
+        costUsd += (usage.searchUnits / 1000) * pricing.searchUnits;
+      }
+    }
+
+    return { costUsd, known };
+  }
+
+  private longestPrefixMatch(models: Record<string, ModelPricing>, name: string) {
+    if (models[name]) return models[name];
+
+    let best: string | undefined;
+    for (const key of Object.keys(models)) {
+      const lowerKey = key.toLowerCase();
+      if (name === lowerKey || name.startsWith(`${lowerKey}-`) || name.startsWith(`${lowerKey}:`)) {
+        if (!best || key.length > best.length) {
+          best = key;
+        }
+      }
+    }
+    return best ? models[best] : undefined;
+  }
+
+  private imagePrice(pricing: ModelPricing, size = '1024x1024', quality = 'standard') {
+    if (!pricing.image) return undefined;
+    return pricing.image[`${quality}/${size}`] ?? pricing.image[size] ?? pricing.image.default;
+  }
+}
@@ -0,0 +1,126 @@
+// Prompt capture for AgentBill SDK
+import { createHash } from 'crypto';
+import { PromptRedactor } from './types';
+
+/**
+ * Captured prompt text is cut off after this many characters
+ */
+export const MAX_PROMPT_LENGTH = 16384;
+
+/**
+ * Default scrubbers for 'redacted' prompt capture
+ */
+export const BUILT_IN_REDACTORS: PromptRedactor[] = [
+  // Email addresses
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, replacement: '[EMAIL]' },
+  // API keys and bearer tokens (OpenAI, Anthropic, AWS access keys, generic sk_/pk_ keys)
+  { pattern: /\b(?:sk|pk|rk)[-_][A-Za-z0-9_-]{16,}\b/g, replacement: '[API_KEY]' },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/g, replacement: '[API_KEY]' },
+  { pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g, replacement: 'Bearer [API_KEY]' },
+  // Phone numbers (international and North American formats)
+  { pattern: /(?<![\w.])\+?\d{1,3}[\s.-]?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?![\w.])/g, replacement: '[PHONE]' },
+];
+
+/**
+ * Turn provider request params into a single canonical prompt string.
+ *
+ * Handles chat `messages` (OpenAI, Azure, Mistral, Bedrock Converse),
+ * Anthropic `system` blocks and content arrays, Responses API `instructions`
+ * and input items, Gemini `contents`, Cohere v1 `message`/`preamble`, and
+ * single-input APIs that take `prompt`, `input`, `inputText`, `query` or
+ * `texts`. Returns undefined when the request carries no prompt.
+ */
+export function normalizePrompt(params: any): string | undefined {
+  if (!params || typeof params !== 'object') return undefined;
+
+  const lines: string[] = [];
+
+  if (params.system !== undefined) {
+    lines.push(`system: ${contentText(params.system)}`);
+  }
+  if (params.instructions !== undefined) {
+    lines.push(`system: ${contentText(params.instructions)}`);
+  }
+  if (params.preamble !== undefined) {
+    lines.push(`system: ${contentText(params.preamble)}`);
+  }
+  if (params.config?.systemInstruction !== undefined) {
+    lines.push(`system: ${contentText(params.config.systemInstruction)}`);
+  }
+
+  if (Array.isArray(params.messages)) {
+    for (const message of params.messages) {
+      lines.push(`${message.role || 'user'}: ${contentText(message.content)}`);
+    }
+  } else if (Array.isArray(params.input) && params.input.some((item: any) => item?.role)) {
+    // Responses API input items
+    for (const item of params.input) {
+      lines.push(item?.role ? `${item.role}: ${contentText(item.content)}` : partText(item));
+    }
+  } else if (params.contents !== undefined) {
+    // Gemini contents: a string, parts, or turns with a role
+    const contents = Array.isArray(params.contents) ? params.contents : [params.contents];
+    for (const turn of contents) {
+      lines.push(turn?.role ? `${turn.role}: ${contentText(turn.parts)}` : contentText(turn?.parts ?? turn));
+    }
+  } else if (params.message !== undefined) {
+    lines.push(`user: ${contentText(params.message)}`);
+  } else if (params.query !== undefined) {
+    lines.push(contentText(params.query));
+  } else if (params.texts !== undefined) {
+    lines.push(contentText(params.texts));
+  } else if (params.prompt !== undefined) {
+    lines.push(contentText(params.prompt));
+  } else if (params.input !== undefined) {
+    lines.push(contentText(params.input));
+  } else if (params.inputText !== undefined) {
+    lines.push(contentText(params.inputText));
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt, 'utf8').digest('hex');
+}
+
+export function redactPrompt(prompt: string, redactors: PromptRedactor[]): string {
+  return redactors.reduce<string>((text, redactor) => {
+    if (typeof redactor === 'function') {
+      return redactor(text);
+    }
+    if (redactor instanceof RegExp) {
+      return text.replace(globalPattern(redactor), '[REDACTED]');
+    }
+    return text.replace(globalPattern(redactor.pattern), redactor.replacement);
+  }, prompt);
+}
+
+/**
+ * Redactors must scrub every match, so patterns written without the `g`
+ * flag are applied as if they had it
+ */
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+function contentText(content: any): string {
+  if (content === undefined || content === null) return '';
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => partText(part)).join(typeof content[0] === 'string' ? '\n' : ' ');
+  }
+  return partText(content);
+}
+
+function partText(part: any): string {
+  if (typeof part === 'string') return part;
+  if (part === null || typeof part !== 'object') return String(part);
+
+  if (typeof part.text === 'string') return part.text;
+  if (part.type === 'tool_use') return `[tool_use ${part.name}] ${JSON.stringify(part.input ?? {})}`;
+  if (part.type === 'tool_result') return `[tool_result] ${contentText(part.content)}`;
+  if (part.content !== undefined) return contentText(part.content);
+  if (part.type) return `[${part.type}]`;
+  return JSON.stringify(part);
+}
@@ -0,0 +1,403 @@
+// OTLP protobuf encoding for AgentBill SDK
+import { OtelExportPayload, OtlpKeyValue, OtlpSpan } from './types';
+
+/**
+ * Protobuf wire types
+ */
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+const FIXED32 = 5;
+
+/**
+ * Minimal protobuf writer for the messages in an OTLP trace export
+ */
+class ProtoWriter {
+  private chunks: Buffer[] = [];
+
+  private tag(field: number, wireType: number) {
+    this.writeVarint(BigInt((field << 3) | wireType));
+  }
+
+  private writeVarint(value: bigint) {
+    const bytes: number[] = [];
+    let remaining = BigInt.asUintN(64, value);
+    while (remaining > BigInt(0x7f)) {
+      bytes.push(Number(remaining & BigInt(0x7f)) | 0x80);
+      remaining >>= BigInt(7);
+    }
+    bytes.push(Number(remaining));
+    this.chunks.push(Buffer.from(bytes));
+  }
+
+  varint(field: number, value: number | bigint | string) {
+    this.tag(field, VARINT);
+    this.writeVarint(BigInt(value));
+  }
+
+  bool(field: number, value: boolean) {
+    this.varint(field, value ? 1 : 0);
+  }
+
+  fixed64(field: number, value: string) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(BigInt.asUintN(64, BigInt(value || 0)));
+    this.tag(field, FIXED64);
+    this.chunks.push(buffer);
+  }
+
+  double(field: number, value: number) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value);
+    this.tag(field, FIXED64);
+    this.chunks.push(buffer);
+  }
+
+  bytes(field: number, value: Buffer) {
+    this.tag(field, LENGTH_DELIMITED);
+    this.writeVarint(BigInt(value.length));
+    this.chunks.push(value);
+  }
+
+  string(field: number, value: string) {
+    this.bytes(field, Buffer.from(value, 'utf8'));
+  }
+
+  message(field: number, write: (writer: ProtoWriter) => void) {
+    const nested = new ProtoWriter();
+    write(nested);
+    this.bytes(field, nested.finish());
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/**
+ * Encode an OTLP/JSON ExportTraceServiceRequest as OTLP protobuf
+ */
+export function encodeTraceRequest(payload: OtelExportPayload): Buffer {
+  const writer = new ProtoWriter();
+  for (const resourceSpans of payload.resourceSpans) {
+    writer.message(1, w => {
+      w.message(1, resource => writeAttributes(resource, 1, resourceSpans.resource.attributes));
+      for (const scopeSpans of resourceSpans.scopeSpans) {
+        w.message(2, s => {
+          s.message(1, scope => {
+            scope.string(1, scopeSpans.scope.name);
+            scope.string(2, scopeSpans.scope.version);
+          });
+          for (const span of scopeSpans.spans) {
+            s.message(2, spanWriter => writeSpan(spanWriter, span));
+          }
+        });
+      }
+    });
+  }
+  return writer.finish();
+}
+
+function writeSpan(w: ProtoWriter, span: OtlpSpan) {
+  w.bytes(1, Buffer.from(span.traceId, 'hex'));
+  w.bytes(2, Buffer.from(span.spanId, 'hex'));
+  if (span.parentSpanId) w.bytes(4, Buffer.from(span.parentSpanId, 'hex'));
+  w.string(5, span.name);
+  if (span.kind) w.varint(6, span.kind);
+  w.fixed64(7, span.startTimeUnixNano);
+  w.fixed64(8, span.endTimeUnixNano);
+  writeAttributes(w, 9, span.attributes);
+  if (span.droppedAttributesCount) w.varint(10, span.droppedAttributesCount);
+  for (const event of span.events) {
+    w.message(11, e => {
+      e.fixed64(1, event.timeUnixNano);
+      e.string(2, event.name);
+      writeAttributes(e, 3, event.attributes);
+      if (event.droppedAttributesCount) e.varint(4, event.droppedAttributesCount);
+    });
+  }
+  if (span.droppedEventsCount) w.varint(12, span.droppedEventsCount);
+  for (const link of span.links) {
+    w.message(13, l => {
+      l.bytes(1, Buffer.from(link.traceId, 'hex'));
+      l.bytes(2, Buffer.from(link.spanId, 'hex'));
+      writeAttributes(l, 4, link.attributes);
+      if (link.droppedAttributesCount) l.varint(5, link.droppedAttributesCount);
+    });
+  }
+  if (span.droppedLinksCount) w.varint(14, span.droppedLinksCount);
+  if (span.status) {
+    const status = span.status;
+    w.message(15, s => {
+      if (status.message) s.string(2, status.message);
+      if (status.code) s.varint(3, status.code);
+    });
+  }
+}
+
+function writeAttributes(w: ProtoWriter, field: number, attributes: OtlpKeyValue[]) {
+  for (const attribute of attributes) {
+    w.message(field, kv => writeKeyValue(kv, attribute));
+  }
+}
+
+function writeKeyValue(w: ProtoWriter, attribute: OtlpKeyValue) {
+  w.string(1, attribute.key);
+  w.message(2, value => writeAnyValue(value, attribute.value));
+}
+
+function writeAnyValue(w: ProtoWriter, value: any) {
+  if (value.stringValue !== undefined) {
+    w.string(1, value.stringValue);
+  } else if (value.boolValue !== undefined) {
+    w.bool(2, value.boolValue);
+  } else if (value.intValue !== undefined) {
+    w.varint(3, value.intValue);
+  } else if (value.doubleValue !== undefined) {
+    w.double(4, value.doubleValue);
+  } else if (value.arrayValue !== undefined) {
+    w.message(5, array => {
+      for (const item of value.arrayValue.values || []) {
+        array.message(1, v => writeAnyValue(v, item));
+      }
+    });
+  } else if (value.kvlistValue !== undefined) {
+    w.message(6, list => writeAttributes(list, 1, value.kvlistValue.values || []));
+  } else if (value.bytesValue !== undefined) {
+    w.bytes(7, Buffer.from(value.bytesValue, 'base64'));
+  }
+}
+
+/**
+ * Minimal protobuf reader yielding the fields of one message
+ */
+class ProtoReader {
+  private pos = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  *fields(): Generator<{ field: number; wireType: number }> {
+    while (this.pos < this.buffer.length) {
+      const tag = Number(this.varint());
+      yield { field: tag >> 3, wireType: tag & 7 };
+    }
+  }
+
+  varint(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      if (this.pos >= this.buffer.length) throw new Error('[AgentBill] Truncated protobuf varint');
+      const byte = this.buffer[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return result;
+      shift += BigInt(7);
+    }
+  }
+
+  fixed64(): bigint {
+    const value = this.buffer.readBigUInt64LE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  double(): number {
+    const value = this.buffer.readDoubleLE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  bytes(): Buffer {
+    const length = Number(this.varint());
+    if (this.pos + length > this.buffer.length) throw new Error('[AgentBill] Truncated protobuf field');
+    const value = this.buffer.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  string(): string {
+    return this.bytes().toString('utf8');
+  }
+
+  skip(wireType: number) {
+    if (wireType === VARINT) this.varint();
+    else if (wireType === FIXED64) this.pos += 8;
+    else if (wireType === LENGTH_DELIMITED) this.bytes();
+    else if (wireType === FIXED32) this.pos += 4;
+    else throw new Error(`[AgentBill] Unsupported protobuf wire type ${wireType}`);
+  }
+}
+
+/**
+ * Decode an OTLP protobuf ExportTraceServiceRequest into its OTLP/JSON form
+ */
+export function decodeTraceRequest(buffer: Buffer): OtelExportPayload {
+  const payload: OtelExportPayload = { resourceSpans: [] };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) payload.resourceSpans.push(readResourceSpans(reader.bytes()));
+    else reader.skip(wireType);
+  }
+  return payload;
+}
+
+function readResourceSpans(buffer: Buffer): OtelExportPayload['resourceSpans'][number] {
+  const resourceSpans: OtelExportPayload['resourceSpans'][number] = { resource: { attributes: [] }, scopeSpans: [] };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) {
+      const resource = new ProtoReader(reader.bytes());
+      for (const inner of resource.fields()) {
+        if (inner.field === 1) resourceSpans.resource.attributes.push(readKeyValue(resource.bytes()));
+        else resource.skip(inner.wireType);
+      }
+    } else if (field === 2) {
+      resourceSpans.scopeSpans.push(readScopeSpans(reader.bytes()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return resourceSpans;
+}
+
+function readScopeSpans(buffer: Buffer): OtelExportPayload['resourceSpans'][number]['scopeSpans'][number] {
+  const scopeSpans = { scope: { name: '', version: '' }, spans: [] as OtlpSpan[] };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) {
+      const scope = new ProtoReader(reader.bytes());
+      for (const inner of scope.fields()) {
+        if (inner.field === 1) scopeSpans.scope.name = scope.string();
+        else if (inner.field === 2) scopeSpans.scope.version = scope.string();
+        else scope.skip(inner.wireType);
+      }
+    } else if (field === 2) {
+      scopeSpans.spans.push(readSpan(reader.bytes()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return scopeSpans;
+}
+
+function readSpan(buffer: Buffer): OtlpSpan {
+  const span: OtlpSpan = {
+    traceId: '',
+    spanId: '',
+    name: '',
+    kind: 0,
+    startTimeUnixNano: '0',
+    endTimeUnixNano: '0',
+    attributes: [],
+    droppedAttributesCount: 0,
+    events: [],
+    droppedEventsCount: 0,
+    links: [],
+    droppedLinksCount: 0,
+  };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    switch (field) {
+      case 1: span.traceId = reader.bytes().toString('hex'); break;
+      case 2: span.spanId = reader.bytes().toString('hex'); break;
+      case 4: span.parentSpanId = reader.bytes().toString('hex') || undefined; break;
+      case 5: span.name = reader.string(); break;
+      case 6: span.kind = Number(reader.varint()); break;
+      case 7: span.startTimeUnixNano = reader.fixed64().toString(); break;
+      case 8: span.endTimeUnixNano = reader.fixed64().toString(); break;
+      case 9: span.attributes.push(readKeyValue(reader.bytes())); break;
+      case 10: span.droppedAttributesCount = Number(reader.varint()); break;
+      case 11: span.events.push(readEvent(reader.bytes())); break;
+      case 12: span.droppedEventsCount = Number(reader.varint()); break;
+      case 13: span.links.push(readLink(reader.bytes())); break;
+      case 14: span.droppedLinksCount = Number(reader.varint()); break;
+      case 15: span.status = readStatus(reader.bytes()); break;
+      default: reader.skip(wireType);
+    }
+  }
+  return span;
+}
+
+function readEvent(buffer: Buffer): OtlpSpan['events'][number] {
+  const event = { timeUnixNano: '0', name: '', attributes: [] as OtlpKeyValue[], droppedAttributesCount: 0 };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) event.timeUnixNano = reader.fixed64().toString();
+    else if (field === 2) event.name = reader.string();
+    else if (field === 3) event.attributes.push(readKeyValue(reader.bytes()));
+    else if (field === 4) event.droppedAttributesCount = Number(reader.varint());
+    else reader.skip(wireType);
+  }
+  return event;
+}
+
+function readLink(buffer: Buffer): OtlpSpan['links'][number] {
+  const link = { traceId: '', spanId: '', attributes: [] as OtlpKeyValue[], droppedAttributesCount: 0 };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) link.traceId = reader.bytes().toString('hex');
+    else if (field === 2) link.spanId = reader.bytes().toString('hex');
+    else if (field === 4) link.attributes.push(readKeyValue(reader.bytes()));
+    else if (field === 5) link.droppedAttributesCount = Number(reader.varint());
+    else reader.skip(wireType);
+  }
+  return link;
+}
+
+function readStatus(buffer: Buffer): { code: number; message?: string } {
+  const status: { code: number; message?: string } = { code: 0 };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 2) status.message = reader.string();
+    else if (field === 3) status.code = Number(reader.varint());
+    else reader.skip(wireType);
+  }
+  return status;
+}
+
+function readKeyValue(buffer: Buffer): OtlpKeyValue {
+  const keyValue: OtlpKeyValue = { key: '', value: {} };
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    if (field === 1) keyValue.key = reader.string();
+    else if (field === 2) keyValue.value = readAnyValue(reader.bytes());
+    else reader.skip(wireType);
+  }
+  return keyValue;
+}
+
+function readAnyValue(buffer: Buffer): any {
+  let value: any = {};
+  const reader = new ProtoReader(buffer);
+  for (const { field, wireType } of reader.fields()) {
+    switch (field) {
+      case 1: value = { stringValue: reader.string() }; break;
+      case 2: value = { boolValue: reader.varint() !== BigInt(0) }; break;
+      case 3: value = { intValue: BigInt.asIntN(64, reader.varint()).toString() }; break;
+      case 4: value = { doubleValue: reader.double() }; break;
+      case 5: {
+        const values: any[] = [];
+        const array = new ProtoReader(reader.bytes());
+        for (const inner of array.fields()) {
+          if (inner.field === 1) values.push(readAnyValue(array.bytes()));
+          else array.skip(inner.wireType);
+        }
+        value = { arrayValue: { values } };
+        break;
+      }
+      case 6: {
+        const values: OtlpKeyValue[] = [];
+        const list = new ProtoReader(reader.bytes());
+        for (const inner of list.fields()) {
+          if (inner.field === 1) values.push(readKeyValue(list.bytes()));
+          else list.skip(inner.wireType);
+        }
+        value = { kvlistValue: { values } };
+        break;
+      }
+      case 7: value = { bytesValue: reader.bytes().toString('base64') }; break;
+      default: reader.skip(wireType);
+    }
+  }
+  return value;
+}
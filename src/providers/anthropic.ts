@@ -0,0 +1,244 @@
+// Anthropic provider definition for AgentBill SDK
+import {
+  CostUsage,
+  ProviderDefinition,
+  ProviderMethod,
+  ProviderRequest,
+  ProviderStream,
+  ProviderUsage,
+  SpanAttributes,
+  StreamHooks,
+  StreamUsage,
+  ToolInvocation,
+} from '../types';
+import { argumentsSize } from '../tools';
+
+const BATCH_METHODS = ['create', 'retrieve', 'cancel', 'delete'];
+
+function messageRequest(params: any): ProviderRequest {
+  return {
+    model: params.model || 'unknown',
+    prompt: params,
+    attributes: {
+      'gen_ai.request.temperature': params.temperature,
+      'gen_ai.request.max_tokens': params.max_tokens,
+      'gen_ai.request.tools': Array.isArray(params.tools) && params.tools.length > 0
+        ? params.tools.map((tool: any) => tool.name ?? tool.type)
+        : undefined,
+      // { type: 'tool', name } forces one tool; other choices are just a type
+      'gen_ai.request.tool_choice': params.tool_choice?.type === 'tool'
+        ? params.tool_choice.name
+        : params.tool_choice?.type,
+    },
+  };
+}
+
+/**
+ * Methods of a `messages` resource: create, stream, countTokens and batches
+ */
+function messagesMethods(resource: string): ProviderMethod[] {
+  return [
+    {
+      path: `${resource}.create`,
+      request: messageRequest,
+      response: response => readMessage(response),
+      stream: params => params.stream ? messageStream() : undefined,
+    },
+    {
+      path: `${resource}.stream`,
+      // MessageStream is returned synchronously
+      sync: true,
+      request: messageRequest,
+      stream: (_params, stream) => typeof stream?.on === 'function'
+        ? { ...messageStream(), observe: observeMessageStream }
+        : undefined,
+    },
+    {
+      // Token counting is free, so the count is recorded without usage or cost
+      path: `${resource}.countTokens`,
+      budget: false,
+      request: params => ({ model: params.model || 'unknown' }),
+      response: response => response?.input_tokens !== undefined
+        ? { attributes: { 'agentbill.counted_input_tokens': response.input_tokens } }
+        : undefined,
+    },
+    // Batch management calls; usage is accounted for when the results are read
+    ...BATCH_METHODS.map((method): ProviderMethod => ({
+      path: `${resource}.batches.${method}`,
+      budget: false,
+      request: arg => ({
+        attributes: { 'agentbill.batch.request_count': Array.isArray(arg?.requests) ? arg.requests.length : undefined },
+      }),
+      response: (response, arg) => ({
+        attributes: {
+          'agentbill.batch.id': response?.id ?? (typeof arg === 'string' ? arg : undefined),
+          'agentbill.batch.status': response?.processing_status || undefined,
+        },
+      }),
+    })),
+    {
+      path: `${resource}.batches.results`,
+      budget: false,
+      request: batchId => ({ attributes: { 'agentbill.batch.id': batchId } }),
+      stream: () => batchResultsStream(),
+    },
+  ];
+}
+
+export const ANTHROPIC_PROVIDER: ProviderDefinition = {
+  name: 'anthropic',
+  methods: [...messagesMethods('messages'), ...messagesMethods('beta.messages')],
+};
+
+/**
+ * Usage, stop reason and requested tool calls of a message. Cache reads and
+ * writes are billed separately.
+ */
+function readMessage(message: any): ProviderUsage {
+  const result: ProviderUsage = {
+    finishReasons: message.stop_reason ? [message.stop_reason] : [],
+    toolInvocations: (Array.isArray(message.content) ? message.content : [])
+      .filter((block: any) => block?.type === 'tool_use')
+      .map((block: any) => ({ name: block.name, id: block.id, argumentsSize: argumentsSize(block.input) })),
+  };
+  return message.usage ? { ...result, ...readAnthropicUsage(message.usage), model: message.model } : result;
+}
+
+/**
+ * Message stream events; tool_use blocks start with their name and id and
+ * stream their input as JSON fragments
+ */
+function messageStream(): ProviderStream {
+  let stopReason: string | undefined;
+  const toolCalls = new Map<number, ToolInvocation>();
+
+  return {
+    read: (event, usage) => {
+      if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        toolCalls.set(event.index, { name: event.content_block.name, id: event.content_block.id });
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        const call = toolCalls.get(event.index);
+        if (call) {
+          call.argumentsSize = (call.argumentsSize || 0) + (argumentsSize(event.delta.partial_json) || 0);
+        }
+      } else if (event.type === 'message_delta' && event.delta?.stop_reason) {
+        stopReason = event.delta.stop_reason;
+      }
+      return readAnthropicEvent(event, usage);
+    },
+    end: usage => ({
+      ...usage,
+      finishReasons: stopReason ? [stopReason] : [],
+      toolInvocations: [...toolCalls.values()],
+    }),
+  };
+}
+
+/**
+ * `messages.stream()` returns a MessageStream that callers often consume
+ * through events (`on('text')`, `finalMessage()`) rather than iteration, so
+ * the span follows the stream's own events
+ */
+function observeMessageStream(stream: any, hooks: StreamHooks) {
+  stream.on('streamEvent', (event: any) => hooks.onChunk(event));
+  // 'end' also follows 'error' and 'abort'; the first event wins
+  stream.on('error', (error: unknown) => hooks.onEnd(error));
+  stream.on('abort', () => hooks.onEnd(undefined, true));
+  stream.on('end', () => hooks.onEnd());
+}
+
+/**
+ * Batch results are priced at batch rates as they are read. The span stays
+ * open until the results are drained and reports the combined usage.
+ */
+function batchResultsStream(): ProviderStream {
+  const costByModel: Record<string, CostUsage> = {};
+  const outcomes: Record<string, number> = {};
+  const totals = { prompt: 0, completion: 0 };
+
+  return {
+    timing: false,
+    read: line => {
+      const type = line?.result?.type;
+      if (!type) return false;
+      outcomes[type] = (outcomes[type] || 0) + 1;
+
+      const message = line.result.message;
+      if (type !== 'succeeded' || !message?.usage) return false;
+
+      const model = message.model || 'unknown';
+      const previous = costByModel[model] || {};
+      costByModel[model] = {
+        inputTokens: (previous.inputTokens || 0) + (message.usage.input_tokens || 0),
+        outputTokens: (previous.outputTokens || 0) + (message.usage.output_tokens || 0),
+        cachedInputTokens: (previous.cachedInputTokens || 0) + (message.usage.cache_read_input_tokens || 0),
+        cacheWriteTokens: (previous.cacheWriteTokens || 0) + (message.usage.cache_creation_input_tokens || 0),
+        batch: true,
+      };
+      const usage = readAnthropicUsage(message.usage);
+      totals.prompt += usage.promptTokens || 0;
+      totals.completion += usage.completionTokens || 0;
+      return false;
+    },
+    end: () => {
+      const attributes: SpanAttributes = {};
+      for (const [type, count] of Object.entries(outcomes)) {
+        attributes[`agentbill.batch.${type}`] = count;
+      }
+      const models = Object.keys(costByModel);
+      if (models.length === 0) return { attributes };
+
+      if (models.length === 1) {
+        attributes['gen_ai.response.model'] = models[0];
+        attributes['ai.model'] = models[0];
+      }
+      return {
+        attributes,
+        promptTokens: totals.prompt,
+        completionTokens: totals.completion,
+        totalTokens: totals.prompt + totals.completion,
+        costByModel,
+      };
+    },
+  };
+}
+
+/**
+ * Anthropic stream event; input tokens come with `message_start`, the
+ * cumulative output count with each `message_delta`
+ */
+export function readAnthropicEvent(event: any, usage: StreamUsage): boolean {
+  if (event.type === 'message_start' && event.message?.usage) {
+    usage.model = event.message.model;
+    Object.assign(usage, readAnthropicUsage(event.message.usage));
+  } else if (event.type === 'message_delta' && event.usage) {
+    // Input and cache counts in message_delta are optional and may be null
+    const cachedTokens = usage.cachedPromptTokens || 0;
+    const cacheWriteTokens = usage.cacheWriteTokens || 0;
+    Object.assign(usage, readAnthropicUsage({
+      input_tokens: event.usage.input_tokens ?? (usage.promptTokens || 0) - cachedTokens - cacheWriteTokens,
+      cache_read_input_tokens: event.usage.cache_read_input_tokens ?? cachedTokens,
+      cache_creation_input_tokens: event.usage.cache_creation_input_tokens ?? cacheWriteTokens,
+      output_tokens: event.usage.output_tokens,
+    }));
+  }
+  return event.type === 'content_block_delta';
+}
+
+/**
+ * Anthropic's `input_tokens` excludes cache reads and writes; the prompt
+ * token count reported on spans includes them
+ */
+export function readAnthropicUsage(usage: any): StreamUsage {
+  const cachedTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  const promptTokens = (usage.input_tokens || 0) + cachedTokens + cacheWriteTokens;
+  const completionTokens = usage.output_tokens || 0;
+  return {
+    promptTokens,
+    cachedPromptTokens: cachedTokens,
+    cacheWriteTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
@@ -0,0 +1,240 @@
+// AWS Bedrock provider definition for AgentBill SDK
+import { ProviderDefinition, ProviderMethod, StreamUsage } from '../types';
+import { readAnthropicEvent, readAnthropicUsage } from './anthropic';
+import { readMistralUsage } from './mistral';
+import { isAsyncIterable } from '../streaming';
+
+type BedrockOperation = 'invokeModel' | 'invokeModelWithResponseStream' | 'converse' | 'converseStream';
+
+type BedrockModelFamily = 'anthropic' | 'titan' | 'nova' | 'llama' | 'cohere' | 'mistral';
+
+const BEDROCK_OPERATIONS: BedrockOperation[] = ['invokeModel', 'invokeModelWithResponseStream', 'converse', 'converseStream'];
+
+function isBedrockOperation(name: string): name is BedrockOperation {
+  return (BEDROCK_OPERATIONS as string[]).includes(name);
+}
+
+/**
+ * The operation behind an aggregated-client method, or behind a command
+ * passed to `send()`. Commands are recognized by their input, since
+ * minifiers rename command classes: Converse inputs carry `messages`,
+ * InvokeModel inputs a `body`. Other commands are not model invocations and
+ * are left uninstrumented.
+ */
+function bedrockOperation(method: string, command: any): BedrockOperation | undefined {
+  if (method !== 'send') {
+    return isBedrockOperation(method) ? method : undefined;
+  }
+
+  const input = command?.input ?? command;
+  if (!input?.modelId) return undefined;
+  const operation = Array.isArray(input.messages) ? 'converse' : input.body !== undefined ? 'invokeModel' : undefined;
+  if (!operation) return undefined;
+
+  // The streaming variants take the same input; an unminified class name
+  // (e.g. ConverseStreamCommand) names them, and `stream` recognizes them
+  // from the response either way
+  const className: unknown = command?.constructor?.name;
+  if (typeof className === 'string' && className.endsWith('Command')) {
+    const name = className.charAt(0).toLowerCase() + className.slice(1, -'Command'.length);
+    if (isBedrockOperation(name) && name.startsWith(operation)) return name;
+  }
+  return operation;
+}
+
+/**
+ * Model invocations, both as aggregated-client methods (invokeModel,
+ * converse, ...) and as commands passed to send(). Commands carry their
+ * parameters in `input`; aggregated-client methods take them directly.
+ */
+function bedrockMethod(method: string): ProviderMethod {
+  return {
+    path: method,
+    operation: args => bedrockOperation(method, args[0]),
+    request: (command, operation) => {
+      const input = command.input ?? command;
+      const converse = operation.startsWith('converse');
+      return {
+        model: input.modelId || 'unknown',
+        prompt: converse ? input : parseJsonBody(input.body),
+        attributes: {
+          'gen_ai.request.temperature': input.inferenceConfig?.temperature,
+          'gen_ai.request.max_tokens': input.inferenceConfig?.maxTokens,
+        },
+      };
+    },
+    withModel: (command, modelId) => {
+      if (command.input) {
+        // Copy the command rather than changing the caller's instance
+        return Object.assign(Object.create(Object.getPrototypeOf(command)), command, {
+          input: { ...command.input, modelId },
+        });
+      }
+      return { ...command, modelId };
+    },
+    response: async (response, command, operation) => {
+      if (operation.startsWith('converse')) {
+        return response.usage ? readConverseUsage(response.usage) : undefined;
+      }
+      if (!response.body) return undefined;
+
+      // Read a copy so the caller can still consume the body
+      const { text, body } = await teeBedrockBody(response.body);
+      response.body = body;
+      return readBedrockUsage((command.input ?? command).modelId || 'unknown', parseJsonBody(text));
+    },
+    stream: (command, response, operation) => {
+      if (operation.startsWith('converse')) {
+        return isAsyncIterable(response?.stream) ? { property: 'stream', read: readConverseStreamEvent } : undefined;
+      }
+      if (isAsyncIterable(response?.body)) {
+        const family = bedrockModelFamily((command.input ?? command).modelId || 'unknown');
+        return { property: 'body', read: (event, usage) => readBedrockStreamChunk(family, event, usage) };
+      }
+      return undefined;
+    },
+  };
+}
+
+export const BEDROCK_PROVIDER: ProviderDefinition = {
+  name: 'bedrock',
+  methods: ['send', ...BEDROCK_OPERATIONS].map(bedrockMethod),
+};
+
+/**
+ * Model family from a model id, inference profile id (`us.anthropic...`) or ARN
+ */
+function bedrockModelFamily(modelId: string): BedrockModelFamily | undefined {
+  const id = modelId.slice(modelId.lastIndexOf('/') + 1).toLowerCase();
+  const match = /^(?:[a-z-]+\.)?(anthropic|amazon|meta|cohere|mistral)\.([a-z0-9-]*)/.exec(id);
+  if (!match) return undefined;
+
+  const [, provider, model] = match;
+  switch (provider) {
+    case 'amazon':
+      if (model.startsWith('nova')) return 'nova';
+      return model.startsWith('titan') ? 'titan' : undefined;
+    case 'meta':
+      return 'llama';
+    default:
+      return provider as BedrockModelFamily;
+  }
+}
+
+/**
+ * InvokeModel response bodies differ per model family
+ */
+const BEDROCK_USAGE_PARSERS: Record<BedrockModelFamily, (body: any) => StreamUsage | undefined> = {
+  anthropic: body => body.usage ? readAnthropicUsage(body.usage) : undefined,
+  nova: body => body.usage ? readConverseUsage(body.usage) : undefined,
+  titan: body => {
+    if (body.inputTextTokenCount === undefined) return undefined;
+    const promptTokens = body.inputTextTokenCount;
+    const completionTokens = (body.results || []).reduce((sum: number, result: any) => sum + (result.tokenCount || 0), 0);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  },
+  llama: body => {
+    if (body.prompt_token_count === undefined) return undefined;
+    const promptTokens = body.prompt_token_count;
+    const completionTokens = body.generation_token_count || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  },
+  cohere: body => {
+    const billed = body.meta?.billed_units;
+    if (!billed) return undefined;
+    const promptTokens = billed.input_tokens || 0;
+    const completionTokens = billed.output_tokens || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  },
+  mistral: body => body.usage ? readMistralUsage(body.usage) : undefined,
+};
+
+function readBedrockUsage(modelId: string, body: any): StreamUsage | undefined {
+  const family = bedrockModelFamily(modelId);
+  return body && family ? BEDROCK_USAGE_PARSERS[family](body) : undefined;
+}
+
+/**
+ * Converse and Nova usage; `inputTokens` excludes cache reads and writes
+ */
+function readConverseUsage(usage: any): StreamUsage {
+  const cachedTokens = usage.cacheReadInputTokens ?? usage.cacheReadInputTokenCount ?? 0;
+  const cacheWriteTokens = usage.cacheWriteInputTokens ?? usage.cacheWriteInputTokenCount ?? 0;
+  const promptTokens = (usage.inputTokens || 0) + cachedTokens + cacheWriteTokens;
+  const completionTokens = usage.outputTokens || 0;
+  return {
+    promptTokens,
+    cachedPromptTokens: cachedTokens,
+    cacheWriteTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * ConverseStream event; usage arrives with the final `metadata` event
+ */
+function readConverseStreamEvent(event: any, usage: StreamUsage): boolean {
+  if (event.metadata?.usage) {
+    Object.assign(usage, readConverseUsage(event.metadata.usage));
+  }
+  return event.contentBlockDelta !== undefined;
+}
+
+/**
+ * InvokeModelWithResponseStream chunk. Anthropic chunks carry their own usage;
+ * for other families the final chunk's `amazon-bedrock-invocationMetrics` is used.
+ */
+function readBedrockStreamChunk(family: BedrockModelFamily | undefined, event: any, usage: StreamUsage): boolean {
+  const chunk = parseJsonBody(event.chunk?.bytes);
+  if (!chunk) return false;
+
+  const metrics = chunk['amazon-bedrock-invocationMetrics'];
+  if (family === 'anthropic') {
+    const isToken = readAnthropicEvent(chunk, usage);
+    if (!metrics) return isToken;
+  }
+
+  if (metrics && usage.promptTokens === undefined) {
+    usage.promptTokens = metrics.inputTokenCount || 0;
+    usage.completionTokens = metrics.outputTokenCount || 0;
+    usage.totalTokens = usage.promptTokens! + usage.completionTokens!;
+  }
+  return !metrics;
+}
+
+/**
+ * Read an InvokeModel response body without using it up. SDK v3 bodies are
+ * buffered Uint8Arrays and can be decoded directly; anything else is read
+ * once and replaced with an equivalent buffered body.
+ */
+async function teeBedrockBody(body: any): Promise<{ text: string | undefined; body: any }> {
+  if (body instanceof Uint8Array) {
+    return { text: new TextDecoder().decode(body), body };
+  }
+  if (typeof body === 'string') {
+    return { text: body, body };
+  }
+  if (typeof body?.transformToString !== 'function') {
+    return { text: undefined, body };
+  }
+
+  const text: string = await body.transformToString();
+  const copy = Object.assign(new TextEncoder().encode(text), {
+    transformToString: async () => text,
+  });
+  return { text, body: copy };
+}
+
+/**
+ * Bedrock request bodies are JSON, either as a string or as bytes
+ */
+function parseJsonBody(body: any): any {
+  if (body === undefined || body === null) return undefined;
+  try {
+    const text = typeof body === 'string' ? body : new TextDecoder().decode(body);
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,69 @@
+// Cohere provider definition for AgentBill SDK
+import { ProviderDefinition, ProviderMethod, StreamUsage } from '../types';
+
+const chatMethod: ProviderMethod = {
+  path: 'chat',
+  request: params => ({
+    model: params.model || 'unknown',
+    prompt: params,
+    attributes: {
+      'gen_ai.request.temperature': params.temperature,
+      'gen_ai.request.max_tokens': params.maxTokens ?? params.max_tokens,
+    },
+  }),
+  response: response => {
+    const billed = cohereBilledUnits(response);
+    return billed ? readCohereUsage(billed) : undefined;
+  },
+  stream: (_params, _response, operation) => operation === 'chatStream' ? { read: readCohereStreamEvent } : undefined,
+};
+
+/**
+ * `CohereClient` (v1) or `CohereClientV2`
+ */
+export const COHERE_PROVIDER: ProviderDefinition = {
+  name: 'cohere',
+  methods: [
+    chatMethod,
+    { ...chatMethod, path: 'chatStream' },
+    { ...chatMethod, path: 'embed' },
+    {
+      ...chatMethod,
+      path: 'rerank',
+      response: response => {
+        const billed = cohereBilledUnits(response);
+        if (!billed) return undefined;
+        const searchUnits = billed.searchUnits ?? billed.search_units ?? 0;
+        return { attributes: { 'gen_ai.usage.search_units': searchUnits }, cost: { searchUnits } };
+      },
+    },
+  ],
+};
+
+/**
+ * Billed units from a Cohere response: `usage` in the v2 API, `meta` in v1,
+ * camelCase in the SDK and snake_case over REST
+ */
+function cohereBilledUnits(response: any): any {
+  const container = response?.usage ?? response?.meta;
+  return container?.billedUnits ?? container?.billed_units;
+}
+
+function readCohereUsage(billed: any): StreamUsage {
+  const promptTokens = billed.inputTokens ?? billed.input_tokens ?? 0;
+  const completionTokens = billed.outputTokens ?? billed.output_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Cohere stream event: v1 ends with `stream-end`, v2 with `message-end`
+ */
+function readCohereStreamEvent(event: any, usage: StreamUsage): boolean {
+  const billed = event.eventType === 'stream-end'
+    ? cohereBilledUnits(event.response)
+    : event.type === 'message-end' ? cohereBilledUnits(event.delta) : undefined;
+  if (billed) {
+    Object.assign(usage, readCohereUsage(billed));
+  }
+  return event.eventType === 'text-generation' || event.type === 'content-delta';
+}
@@ -0,0 +1,80 @@
+// Google Gemini provider definition for AgentBill SDK
+import { ProviderDefinition, ProviderMethod, StreamUsage } from '../types';
+
+const generateContent: ProviderMethod = {
+  path: 'models.generateContent',
+  // Models may be given as `models/gemini-2.0-flash` or a Vertex resource path
+  request: params => ({
+    model: geminiModelName(params.model),
+    prompt: params,
+    attributes: {
+      'gen_ai.request.temperature': params.config?.temperature,
+      'gen_ai.request.max_tokens': params.config?.maxOutputTokens,
+    },
+  }),
+  response: response => response.usageMetadata ? {
+    ...readGeminiUsage(response.usageMetadata),
+    model: response.modelVersion ? geminiModelName(response.modelVersion) : undefined,
+  } : undefined,
+  // generateContentStream resolves to an async generator of partial responses
+  stream: (_params, _response, operation) => operation === 'models.generateContentStream'
+    ? { read: readGeminiChunk }
+    : undefined,
+};
+
+/**
+ * Client from `@google/genai`, for both the Gemini API and Vertex AI
+ */
+export const GEMINI_PROVIDER: ProviderDefinition = {
+  name: 'gemini',
+  methods: [
+    generateContent,
+    { ...generateContent, path: 'models.generateContentStream' },
+    {
+      ...generateContent,
+      path: 'models.embedContent',
+      // Only Vertex AI reports token counts for embeddings
+      response: response => {
+        const inputTokens = (response.embeddings || [])
+          .reduce((sum: number, embedding: any) => sum + (embedding.statistics?.tokenCount || 0), 0);
+        return inputTokens > 0
+          ? { promptTokens: inputTokens, completionTokens: 0, totalTokens: inputTokens, cost: { inputTokens } }
+          : undefined;
+      },
+    },
+  ],
+};
+
+function geminiModelName(model: string | undefined): string {
+  return model ? model.slice(model.lastIndexOf('/') + 1) : 'unknown';
+}
+
+/**
+ * Gemini `usageMetadata`; thinking tokens are billed as output, and tool-use
+ * prompt tokens as input
+ */
+function readGeminiUsage(metadata: any): StreamUsage {
+  const promptTokens = (metadata.promptTokenCount || 0) + (metadata.toolUsePromptTokenCount || 0);
+  const reasoningTokens = metadata.thoughtsTokenCount || 0;
+  const completionTokens = (metadata.candidatesTokenCount || 0) + reasoningTokens;
+  return {
+    promptTokens,
+    cachedPromptTokens: metadata.cachedContentTokenCount || 0,
+    completionTokens,
+    reasoningTokens,
+    totalTokens: metadata.totalTokenCount || promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Gemini stream chunk; each chunk carries the usage so far
+ */
+function readGeminiChunk(chunk: any, usage: StreamUsage): boolean {
+  if (chunk.modelVersion) {
+    usage.model = geminiModelName(chunk.modelVersion);
+  }
+  if (chunk.usageMetadata) {
+    Object.assign(usage, readGeminiUsage(chunk.usageMetadata));
+  }
+  return Array.isArray(chunk.candidates) && chunk.candidates.length > 0;
+}
@@ -0,0 +1,49 @@
+// Mistral provider definition for AgentBill SDK
+import { ProviderDefinition, ProviderMethod, StreamUsage } from '../types';
+
+const chatMethod: ProviderMethod = {
+  path: 'chat.complete',
+  request: params => ({
+    model: params.model || 'unknown',
+    prompt: params,
+    attributes: {
+      'gen_ai.request.temperature': params.temperature,
+      'gen_ai.request.max_tokens': params.max_tokens,
+    },
+  }),
+  response: response => response.usage ? { ...readMistralUsage(response.usage), model: response.model } : undefined,
+  // chat.stream resolves to an async iterable of completion events
+  stream: (params, _response, operation) => operation === 'chat.stream' || params.stream
+    ? { read: readMistralChunk }
+    : undefined,
+};
+
+export const MISTRAL_PROVIDER: ProviderDefinition = {
+  name: 'mistral',
+  methods: [chatMethod, { ...chatMethod, path: 'chat.stream' }],
+};
+
+/**
+ * Mistral completion event; the v1 SDK nests the chunk under `data`
+ */
+function readMistralChunk(event: any, usage: StreamUsage): boolean {
+  const chunk = event.data ?? event;
+  if (chunk.model) {
+    usage.model = chunk.model;
+  }
+  if (chunk.usage) {
+    Object.assign(usage, readMistralUsage(chunk.usage));
+  }
+  return Array.isArray(chunk.choices) && chunk.choices.length > 0;
+}
+
+/**
+ * Mistral usage is snake_case in the REST API and camelCase in the v1 SDK
+ */
+export function readMistralUsage(usage: any) {
+  return {
+    promptTokens: usage.prompt_tokens ?? usage.promptTokens ?? 0,
+    completionTokens: usage.completion_tokens ?? usage.completionTokens ?? 0,
+    totalTokens: usage.total_tokens ?? usage.totalTokens ?? 0,
+  };
+}
@@ -0,0 +1,296 @@
+// OpenAI and Azure OpenAI provider definitions for AgentBill SDK
+import { ProviderDefinition, ProviderMethod, ProviderStream, ProviderUsage, StreamUsage, ToolInvocation } from '../types';
+import { argumentsSize } from '../tools';
+
+const chatCompletions: ProviderMethod = {
+  path: 'chat.completions.create',
+  request: params => ({
+    model: params.model || 'unknown',
+    prompt: params,
+    attributes: {
+      'gen_ai.request.temperature': params.temperature,
+      'gen_ai.request.max_tokens': params.max_tokens,
+      ...chatToolAttributes(params),
+    },
+  }),
+  // Azure `model` params are deployment names; the response carries the real model
+  response: response => readChatResponse(response),
+  stream: params => params.stream ? chatStream() : undefined,
+};
+
+export const OPENAI_PROVIDER: ProviderDefinition = {
+  name: 'openai',
+  methods: [
+    chatCompletions,
+    { ...chatCompletions, path: 'completions.create' },
+    {
+      path: 'responses.create',
+      request: params => ({
+        model: params.model || 'unknown',
+        prompt: params,
+        attributes: {
+          'gen_ai.request.temperature': params.temperature,
+          'gen_ai.request.max_tokens': params.max_output_tokens,
+          'gen_ai.request.reasoning_effort': params.reasoning?.effort || undefined,
+        },
+      }),
+      response: response => readResponsesUsage(response),
+      stream: params => params.stream ? { read: readResponsesEvent } : undefined,
+    },
+    {
+      path: 'embeddings.create',
+      request: params => ({ model: params.model || 'unknown', prompt: params }),
+      // Embeddings have no completion tokens
+      response: response => response.usage ? {
+        promptTokens: response.usage.prompt_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0,
+        cost: { inputTokens: response.usage.prompt_tokens || 0 },
+      } : undefined,
+    },
+    {
+      path: 'images.generate',
+      request: params => ({
+        model: params.model || 'dall-e-3',
+        prompt: params,
+        attributes: {
+          'image.size': params.size || undefined,
+          'image.quality': params.quality || undefined,
+        },
+      }),
+      response: (response, params) => {
+        if (response.usage) {
+          // Token-priced image models (gpt-image-1) report usage like chat models
+          const inputTokens = response.usage.input_tokens || 0;
+          const outputTokens = response.usage.output_tokens || 0;
+          return {
+            promptTokens: inputTokens,
+            completionTokens: outputTokens,
+            totalTokens: response.usage.total_tokens || inputTokens + outputTokens,
+          };
+        }
+        const images = Array.isArray(response.data) ? response.data.length : params.n || 1;
+        return {
+          attributes: { 'image.count': images },
+          cost: { images, imageSize: params.size, imageQuality: params.quality },
+        };
+      },
+    },
+    {
+      path: 'audio.transcriptions.create',
+      request: params => ({ model: params.model || 'whisper-1' }),
+      // Duration is only returned with response_format: 'verbose_json'
+      response: response => typeof response?.duration === 'number' ? {
+        attributes: { 'audio.duration_seconds': response.duration },
+        cost: { audioSeconds: response.duration },
+      } : undefined,
+    },
+    {
+      path: 'audio.speech.create',
+      request: params => ({
+        model: params.model || 'tts-1',
+        prompt: params,
+        attributes: { 'audio.voice': params.voice || undefined },
+      }),
+      response: (_response, params) => {
+        const characters = typeof params.input === 'string' ? params.input.length : 0;
+        return { attributes: { 'audio.characters': characters }, cost: { characters } };
+      },
+    },
+    {
+      path: 'moderations.create',
+      request: params => ({ model: params.model || 'text-moderation-latest' }),
+      // Free, but priced so the span reports a cost of $0
+      response: () => ({ cost: {} }),
+    },
+  ],
+};
+
+export const AZURE_OPENAI_PROVIDER: ProviderDefinition = {
+  name: 'azure_openai',
+  methods: [chatCompletions],
+};
+
+/**
+ * Usage, finish reasons and requested tool calls of a chat completion.
+ * OpenAI reports cached prompt tokens as a subset of `prompt_tokens`.
+ */
+function readChatResponse(response: any): ProviderUsage {
+  const choices: any[] = Array.isArray(response.choices) ? response.choices : [];
+  const result: ProviderUsage = {
+    finishReasons: choices.map(choice => choice.finish_reason).filter(Boolean),
+    toolInvocations: choices.flatMap(choice => messageToolCalls(choice.message)),
+  };
+  if (!response.usage) return result;
+
+  return {
+    ...result,
+    model: response.model,
+    promptTokens: response.usage.prompt_tokens || 0,
+    completionTokens: response.usage.completion_tokens || 0,
+    totalTokens: response.usage.total_tokens || 0,
+    cachedPromptTokens: response.usage.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: response.usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/**
+ * Tools offered with `tools` (or the legacy `functions`) and the `tool_choice`
+ */
+function chatToolAttributes(params: any) {
+  const tools: string[] = [
+    ...(Array.isArray(params.tools) ? params.tools : []).map((tool: any) => tool.function?.name ?? tool.custom?.name ?? tool.type),
+    ...(Array.isArray(params.functions) ? params.functions : []).map((fn: any) => fn.name),
+  ].filter(Boolean);
+
+  const choice = params.tool_choice ?? params.function_call;
+  return {
+    'gen_ai.request.tools': tools.length > 0 ? tools : undefined,
+    'gen_ai.request.tool_choice': typeof choice === 'string'
+      ? choice
+      : choice?.function?.name ?? choice?.custom?.name ?? choice?.name,
+  };
+}
+
+function messageToolCalls(message: any): ToolInvocation[] {
+  const calls: ToolInvocation[] = (Array.isArray(message?.tool_calls) ? message.tool_calls : []).map((call: any) => ({
+    name: call.function?.name ?? call.custom?.name ?? call.type,
+    id: call.id,
+    argumentsSize: argumentsSize(call.function?.arguments ?? call.custom?.input),
+  }));
+  if (message?.function_call) {
+    calls.push({ name: message.function_call.name, argumentsSize: argumentsSize(message.function_call.arguments) });
+  }
+  return calls;
+}
+
+/**
+ * Chat completion stream; tool calls arrive in fragments keyed by choice
+ * and tool index, with the arguments spread over several chunks
+ */
+function chatStream(): ProviderStream {
+  const finishReasons: string[] = [];
+  const toolCalls = new Map<string, ToolInvocation>();
+
+  return {
+    read: (chunk, usage) => {
+      for (const choice of Array.isArray(chunk.choices) ? chunk.choices : []) {
+        if (choice.finish_reason) {
+          finishReasons[choice.index ?? 0] = choice.finish_reason;
+        }
+        for (const fragment of choice.delta?.tool_calls || []) {
+          const key = `${choice.index ?? 0}:${fragment.index ?? 0}`;
+          const call = toolCalls.get(key) || { name: '' };
+          call.id = fragment.id ?? call.id;
+          call.name = fragment.function?.name ?? call.name;
+          const size = argumentsSize(fragment.function?.arguments);
+          if (size !== undefined) {
+            call.argumentsSize = (call.argumentsSize || 0) + size;
+          }
+          toolCalls.set(key, call);
+        }
+      }
+      return readOpenAIChunk(chunk, usage);
+    },
+    end: usage => ({
+      ...usage,
+      finishReasons: finishReasons.filter(Boolean),
+      toolInvocations: [...toolCalls.values()],
+    }),
+  };
+}
+
+/**
+ * OpenAI-style chunk; usage only arrives on the final chunk when the request
+ * sets `stream_options: { include_usage: true }`
+ */
+function readOpenAIChunk(chunk: any, usage: StreamUsage): boolean {
+  if (chunk.model) {
+    usage.model = chunk.model;
+  }
+  if (chunk.usage) {
+    usage.promptTokens = chunk.usage.prompt_tokens || 0;
+    usage.completionTokens = chunk.usage.completion_tokens || 0;
+    usage.totalTokens = chunk.usage.total_tokens || 0;
+    usage.cachedPromptTokens = chunk.usage.prompt_tokens_details?.cached_tokens || 0;
+  }
+  return Array.isArray(chunk.choices) && chunk.choices.length > 0;
+}
+
+/**
+ * Responses API stream event; the final `response.completed` (or
+ * `response.incomplete` / `response.failed`) event carries the full response
+ */
+function readResponsesEvent(event: any, usage: StreamUsage): boolean {
+  if (event.response && /^response\.(completed|incomplete|failed)$/.test(event.type)) {
+    Object.assign(usage, readResponsesUsage(event.response));
+  } else if (event.type === 'response.created' && event.response?.model) {
+    usage.model = event.response.model;
+  }
+  return event.type === 'response.output_text.delta';
+}
+
+/**
+ * Responses API usage, plus counts of built-in tool calls (web search, file
+ * search, code interpreter, ...) found in the output items
+ */
+function readResponsesUsage(response: any): StreamUsage {
+  const usage: StreamUsage = {};
+  if (response.model) {
+    usage.model = response.model;
+  }
+  if (response.usage) {
+    usage.promptTokens = response.usage.input_tokens || 0;
+    usage.completionTokens = response.usage.output_tokens || 0;
+    usage.totalTokens = response.usage.total_tokens || 0;
+    usage.cachedPromptTokens = response.usage.input_tokens_details?.cached_tokens || 0;
+    usage.reasoningTokens = response.usage.output_tokens_details?.reasoning_tokens || 0;
+  }
+
+  for (const item of Array.isArray(response.output) ? response.output : []) {
+    if (typeof item?.type !== 'string' || !item.type.endsWith('_call')) continue;
+    if (item.type === 'function_call' || item.type === 'custom_tool_call') continue;
+
+    const tool = item.type.slice(0, -'_call'.length);
+    usage.toolCalls = usage.toolCalls || {};
+    usage.toolCalls[tool] = (usage.toolCalls[tool] || 0) + 1;
+  }
+  return usage;
+}
+
+/**
+ * OpenAI-compatible providers recognized from the client's `baseURL`
+ */
+const OPENAI_COMPATIBLE_HOSTS: Array<[RegExp, string]> = [
+  [/(^|\.)groq\.com$/, 'groq'],
+  [/(^|\.)together\.(xyz|ai)$/, 'together'],
+  [/(^|\.)openrouter\.ai$/, 'openrouter'],
+  [/(^|\.)fireworks\.ai$/, 'fireworks'],
+  [/(^|\.)deepseek\.com$/, 'deepseek'],
+  [/(^|\.)x\.ai$/, 'xai'],
+  [/(^|\.)perplexity\.ai$/, 'perplexity'],
+  [/(^|\.)mistral\.ai$/, 'mistral'],
+];
+
+/**
+ * Ollama's default port; other self-hosted servers need wrapOpenAICompatible
+ */
+const OLLAMA_PORT = '11434';
+
+/**
+ * Provider behind an OpenAI client's `baseURL`. Unrecognized hosts are kept
+ * as 'openai', since they are most often proxies in front of OpenAI.
+ */
+export function detectOpenAIProvider(baseURL: unknown): string {
+  if (typeof baseURL !== 'string') return 'openai';
+
+  let url: URL;
+  try {
+    url = new URL(baseURL);
+  } catch {
+    return 'openai';
+  }
+
+  if (url.port === OLLAMA_PORT) return 'ollama';
+  const match = OPENAI_COMPATIBLE_HOSTS.find(([pattern]) => pattern.test(url.hostname));
+  return match ? match[1] : 'openai';
+}
@@ -0,0 +1,46 @@
+// Provider registry for AgentBill SDK
+import { ProviderDefinition } from './types';
+import { AZURE_OPENAI_PROVIDER, OPENAI_PROVIDER } from './providers/openai';
+import { ANTHROPIC_PROVIDER } from './providers/anthropic';
+import { BEDROCK_PROVIDER } from './providers/bedrock';
+import { MISTRAL_PROVIDER } from './providers/mistral';
+import { GEMINI_PROVIDER } from './providers/gemini';
+import { COHERE_PROVIDER } from './providers/cohere';
+
+export const BUILT_IN_PROVIDERS: ProviderDefinition[] = [
+  OPENAI_PROVIDER,
+  AZURE_OPENAI_PROVIDER,
+  ANTHROPIC_PROVIDER,
+  BEDROCK_PROVIDER,
+  MISTRAL_PROVIDER,
+  GEMINI_PROVIDER,
+  COHERE_PROVIDER,
+];
+
+const providers = new Map<string, ProviderDefinition>();
+
+/**
+ * Register a provider definition so clients can be wrapped with
+ * `wrap(client, name)`. Registering an existing name replaces it, which also
+ * lets a built-in provider be extended with methods it does not trace yet.
+ */
+export function registerProvider(definition: ProviderDefinition) {
+  if (!definition?.name) {
+    throw new Error('[AgentBill] Provider definitions need a name');
+  }
+  if (!Array.isArray(definition.methods) || definition.methods.length === 0) {
+    throw new Error(`[AgentBill] Provider "${definition.name}" has no methods`);
+  }
+  for (const method of definition.methods) {
+    if (!method.path || method.path.split('.').some(part => part === '')) {
+      throw new Error(`[AgentBill] Provider "${definition.name}" has an invalid method path "${method.path}"`);
+    }
+  }
+  providers.set(definition.name, definition);
+}
+
+export function getProvider(name: string): ProviderDefinition | undefined {
+  return providers.get(name);
+}
+
+BUILT_IN_PROVIDERS.forEach(registerProvider);
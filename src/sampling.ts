@@ -0,0 +1,149 @@
+// Span sampling for AgentBill SDK
+import { SamplingConfig, SpanData } from './types';
+import { decodeValue, encodeAttributes } from './otlp';
+import { AgentBillConfigError } from './errors';
+import { ratioIssue } from './config';
+
+export interface SamplingDecision {
+  sampled: boolean;
+  /** Ratio the span was sampled at; 1 for errors kept by `keepErrors` */
+  ratio: number;
+}
+
+/**
+ * Decides which finished spans are exported
+ */
+export class Sampler {
+  private ratio: number;
+  private rules: Array<{ matches: (name: string) => boolean; ratio: number }>;
+  private keepErrors: boolean;
+
+  constructor(config: SamplingConfig) {
+    this.ratio = checkRatio(config.ratio ?? 1, 'sampling.ratio');
+    this.rules = (config.rules || []).map((rule, index) => ({
+      matches: operationMatcher(rule.operation),
+      ratio: checkRatio(rule.ratio, `sampling.rules[${index}].ratio`),
+    }));
+    this.keepErrors = config.keepErrors !== false;
+  }
+
+  /**
+   * Whether to export a span. The decision depends only on its trace ID and
+   * ratio, so spans of a trace sampled at the same ratio are kept or dropped
+   * together, in every process that sees the trace.
+   */
+  sample(span: SpanData): SamplingDecision {
+    if (this.keepErrors && span.status?.code === 2) {
+      return { sampled: true, ratio: 1 };
+    }
+    const ratio = this.rules.find(rule => rule.matches(span.name))?.ratio ?? this.ratio;
+    return { sampled: traceIdFraction(span.traceId) < ratio, ratio };
+  }
+}
+
+interface RollupGroup {
+  operation: string;
+  attributes: Record<string, string>;
+  calls: number;
+  errors: number;
+  start: bigint;
+  end: bigint;
+  usage: Record<string, number>;
+}
+
+/**
+ * Sums the usage of unsampled LLM calls per operation, customer and model,
+ * for 'usage_only' sampling
+ */
+export class UsageRollup {
+  private groups = new Map<string, RollupGroup>();
+
+  get size(): number {
+    return this.groups.size;
+  }
+
+  /**
+   * Fold a span into its group; returns false for spans that are not LLM calls
+   */
+  add(span: SpanData): boolean {
+    const attributes: Record<string, any> = {};
+    for (const attribute of span.attributes) {
+      attributes[attribute.key] = decodeValue(attribute.value);
+    }
+    if (attributes['gen_ai.system'] === undefined) return false;
+
+    const keys: Record<string, string> = {
+      'customer.id': attributes['customer.id'],
+      'gen_ai.system': attributes['gen_ai.system'],
+      'gen_ai.request.model': attributes['gen_ai.response.model'] ?? attributes['gen_ai.request.model'],
+    };
+    const id = JSON.stringify([span.name, ...Object.values(keys)]);
+    const start = BigInt(span.startTimeUnixNano);
+    const end = BigInt(span.endTimeUnixNano || span.startTimeUnixNano);
+
+    let group = this.groups.get(id);
+    if (!group) {
+      group = { operation: span.name, attributes: keys, calls: 0, errors: 0, start, end, usage: {} };
+      this.groups.set(id, group);
+    }
+    group.calls++;
+    if (span.status?.code === 2) group.errors++;
+    if (start < group.start) group.start = start;
+    if (end > group.end) group.end = end;
+    for (const [key, value] of Object.entries(attributes)) {
+      if (key.startsWith('gen_ai.usage.') && typeof value === 'number') {
+        group.usage[key] = (group.usage[key] || 0) + value;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * One span per group summing everything added since the last drain
+   */
+  drain(ids: { generateTraceId(): string; generateSpanId(): string }): SpanData[] {
+    const spans = [...this.groups.values()].map(group => ({
+      traceId: ids.generateTraceId(),
+      spanId: ids.generateSpanId(),
+      name: group.operation,
+      kind: 'internal' as const,
+      startTimeUnixNano: group.start.toString(),
+      endTimeUnixNano: group.end.toString(),
+      attributes: encodeAttributes({
+        'agentbill.span.type': 'usage_rollup',
+        'agentbill.rollup.calls': group.calls,
+        'agentbill.rollup.errors': group.errors,
+        ...group.attributes,
+        ...group.usage,
+      }),
+      events: [],
+      status: { code: 0 },
+    }));
+    this.groups.clear();
+    return spans;
+  }
+}
+
+/**
+ * The low 52 bits of a trace ID as a fraction in [0, 1); trace IDs are
+ * random, so this is uniformly distributed
+ */
+function traceIdFraction(traceId: string): number {
+  return parseInt(traceId.slice(-13), 16) / 2 ** 52;
+}
+
+function operationMatcher(operation: string | RegExp): (name: string) => boolean {
+  if (operation instanceof RegExp) {
+    return name => operation.test(name);
+  }
+  const pattern = new RegExp(`^${operation.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return name => pattern.test(name);
+}
+
+function checkRatio(ratio: number, name: string): number {
+  const issue = ratioIssue(ratio, name);
+  if (issue) {
+    throw new AgentBillConfigError([issue]);
+  }
+  return ratio;
+}
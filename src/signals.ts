@@ -0,0 +1,174 @@
+// Revenue signal tracking for AgentBill SDK
+import { randomUUID } from 'crypto';
+import { AgentBillConfig, ExportResult, ExportStats, SignalRecord, TrackSignalParams } from './types';
+import {
+  ExportQueue,
+  DEFAULT_MAX_BATCH_SIZE,
+  DEFAULT_SCHEDULED_DELAY_MS,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
+  cancelShutdownOnExit,
+  settlesWithin,
+  shutdownOnExit,
+} from './export-queue';
+import { DEFAULT_BASE_URL, toExportResult } from './exporters';
+import { getActiveContext } from './context';
+
+/**
+ * Queues revenue signals and sends them through the same retrying pipeline
+ * as spans
+ */
+export class SignalTracker {
+  private config: AgentBillConfig;
+  private queue: ExportQueue<SignalRecord>;
+  private maxBatchSize: number;
+  private exportTimer: NodeJS.Timeout | null = null;
+  private shutdownPromise: Promise<void> | null = null;
+  private trackListeners: Array<(signal: SignalRecord) => void> = [];
+
+  constructor(config: AgentBillConfig) {
+    this.config = config;
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.queue = new ExportQueue<SignalRecord>({
+      name: 'signals',
+      send: (signals, signal) => this.send(signals, signal),
+      maxQueueSize: config.maxQueueSize,
+      maxBatchSize: this.maxBatchSize,
+      exportTimeoutMs: config.exportTimeoutMs,
+      dropPolicy: config.dropPolicy,
+      retry: config.retry,
+      spillDirectory: config.spillDirectory,
+      log: (message, data) => this.log(message, data),
+    });
+
+    if (config.flushOnExit !== false) {
+      shutdownOnExit(this);
+    }
+  }
+
+  private log(message: string, data?: any) {
+    if (this.config.debug) {
+      console.log(`[AgentBill] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Queue a signal and return its idempotency key
+   */
+  track(params: TrackSignalParams): string {
+    if (!params?.event_name) {
+      throw new Error('[AgentBill] trackSignal needs an event_name');
+    }
+    if (params.revenue !== undefined && !Number.isFinite(params.revenue)) {
+      throw new Error(`[AgentBill] Signal "${params.event_name}" has an invalid revenue: ${params.revenue}`);
+    }
+
+    const active = getActiveContext();
+    const signal: SignalRecord = {
+      event_name: params.event_name,
+      revenue: params.revenue || 0,
+      customer_id: params.customerId ?? active?.customerId ?? this.config.customerId,
+      timestamp: Date.now(),
+      data: params.data || {},
+      data_source: 'sdk',
+      trace_id: params.traceId ?? active?.traceId,
+      span_id: params.spanId ?? (params.traceId ? undefined : active?.spanId),
+      idempotency_key: params.idempotencyKey || randomUUID(),
+    };
+
+    for (const listener of this.trackListeners) {
+      try {
+        listener(signal);
+      } catch (error) {
+        console.error('[AgentBill] Signal listener failed:', error);
+      }
+    }
+    if (this.shutdownPromise) {
+      console.warn(`[AgentBill] Signal "${signal.event_name}" tracked after shutdown was dropped`);
+      return signal.idempotency_key;
+    }
+    if (this.config.disabled) {
+      return signal.idempotency_key;
+    }
+    this.queue.enqueue(signal);
+    this.log(`Signal tracked: ${signal.event_name}, revenue: $${signal.revenue}`, { traceId: signal.trace_id });
+    this.scheduleExport();
+    return signal.idempotency_key;
+  }
+
+  /**
+   * Call `listener` with every tracked signal
+   */
+  onTrack(listener: (signal: SignalRecord) => void) {
+    this.trackListeners.push(listener);
+  }
+
+  private scheduleExport() {
+    if (this.queue.size >= this.maxBatchSize) {
+      this.queue.drain();
+    } else if (!this.exportTimer) {
+      this.exportTimer = setTimeout(() => {
+        this.exportTimer = null;
+        this.queue.drain();
+      }, this.config.scheduledDelayMs ?? DEFAULT_SCHEDULED_DELAY_MS);
+      this.exportTimer.unref?.();
+    }
+  }
+
+  /**
+   * The record-signals endpoint takes one signal per request, so a batch is
+   * sent signal by signal. On the first failure (or when the queue aborts
+   * the send) the signals delivered so far are reported, so only the rest
+   * are retried.
+   */
+  private async send(signals: SignalRecord[], abort: AbortSignal): Promise<ExportResult> {
+    for (let index = 0; index < signals.length; index++) {
+      let result: ExportResult;
+      try {
+        const response = await fetch(`${this.config.baseUrl || DEFAULT_BASE_URL}/functions/v1/record-signals`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(signals[index]),
+          signal: abort,
+        });
+        result = await toExportResult(response);
+      } catch (error) {
+        result = { success: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+      }
+      if (!result.success) {
+        return { ...result, delivered: index };
+      }
+    }
+    return { success: true };
+  }
+
+  getExportStats(): ExportStats {
+    return this.queue.getStats();
+  }
+
+  async flush() {
+    if (this.exportTimer) {
+      clearTimeout(this.exportTimer);
+      this.exportTimer = null;
+    }
+    await this.queue.flush();
+  }
+
+  /**
+   * Send queued signals, giving up after `timeoutMs`; signals tracked
+   * afterwards are dropped
+   */
+  shutdown(timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS): Promise<void> {
+    if (!this.shutdownPromise) {
+      cancelShutdownOnExit(this);
+      this.shutdownPromise = settlesWithin(this.flush(), timeoutMs).then(sent => {
+        if (!sent) {
+          console.warn(`[AgentBill] Shutdown timed out after ${timeoutMs}ms with ${this.queue.size} signals not sent`);
+        }
+      });
+    }
+    return this.shutdownPromise;
+  }
+}
@@ -0,0 +1,97 @@
+// Streaming support for AgentBill SDK
+import { StreamHooks } from './types';
+
+export interface StreamTiming {
+  startTime: number;
+  /** When the provider returned the stream */
+  responseTime: number;
+  firstTokenTime?: number;
+}
+
+export function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return value != null && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Ends the spans of streams dropped without ever being iterated
+ */
+const abandonedStreams = new FinalizationRegistry<() => void>(finish => finish());
+
+/**
+ * Wrap a provider stream in a pass-through async iterable.
+ *
+ * Chunks are forwarded unchanged; every other property of the stream
+ * (e.g. `controller`, `toReadableStream`) is proxied to the original object.
+ * A stream that is garbage collected before it is iterated ends as aborted,
+ * so its span does not stay open forever; `finalizer` tracks which streams
+ * are collected.
+ */
+export function instrumentStream<T extends object>(
+  stream: T,
+  hooks: StreamHooks,
+  finalizer: Pick<FinalizationRegistry<() => void>, 'register' | 'unregister'> = abandonedStreams
+): T {
+  let finished = false;
+  const token = {};
+
+  const finish = (error?: unknown, aborted = false) => {
+    if (finished) return;
+    finished = true;
+    finalizer.unregister(token);
+    hooks.onEnd(error, aborted);
+  };
+
+  const instrumentedStream = new Proxy(stream, {
+    get(target: any, prop: string | symbol) {
+      if (prop === Symbol.asyncIterator) {
+        return function() {
+          // From here on the iterator ends the span, even if the stream itself is dropped
+          finalizer.unregister(token);
+          const iterator: AsyncIterator<any> = target[Symbol.asyncIterator]();
+
+          const instrumented: AsyncIterableIterator<any> = {
+            async next(...args: [] | [any]) {
+              let result: IteratorResult<any>;
+              try {
+                result = await iterator.next(...args);
+              } catch (error) {
+                finish(error);
+                throw error;
+              }
+
+              if (result.done) {
+                finish();
+              } else {
+                hooks.onChunk(result.value);
+              }
+              return result;
+            },
+            async return(value?: any) {
+              // The caller stopped iterating early (break, thrown error, abort)
+              finish(undefined, true);
+              return iterator.return ? iterator.return(value) : { done: true, value };
+            },
+            async throw(error?: any) {
+              finish(error);
+              if (iterator.throw) {
+                return iterator.throw(error);
+              }
+              throw error;
+            },
+            [Symbol.asyncIterator]() {
+              return instrumented;
+            },
+          };
+
+          return instrumented;
+        };
+      }
+
+      const value = target[prop];
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+
+  finalizer.register(instrumentedStream, () => finish(undefined, true), token);
+  return instrumentedStream;
+}
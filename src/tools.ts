@@ -0,0 +1,48 @@
+// Tool call tracking for AgentBill SDK
+import { TraceContext } from './types';
+
+/**
+ * Requests older than this many are forgotten, so tools that are never run
+ * through `wrapTool()` do not accumulate
+ */
+const MAX_PENDING_TOOL_CALLS = 1024;
+
+interface PendingToolCall {
+  name: string;
+  id?: string;
+  /** Span of the LLM call that requested the tool */
+  requestedBy: TraceContext;
+}
+
+/**
+ * Tool calls requested by LLM responses that have not been run yet, in the
+ * order they were requested
+ */
+export class PendingToolCalls {
+  private calls: PendingToolCall[] = [];
+
+  add(call: PendingToolCall) {
+    this.calls.push(call);
+    if (this.calls.length > MAX_PENDING_TOOL_CALLS) {
+      this.calls.shift();
+    }
+  }
+
+  /**
+   * Remove and return the request a tool run answers: the one with `id`
+   * when given, otherwise the oldest request for a tool named `name`
+   */
+  take(name: string, id?: string): PendingToolCall | undefined {
+    const index = this.calls.findIndex(call => id !== undefined ? call.id === id : call.name === name);
+    return index === -1 ? undefined : this.calls.splice(index, 1)[0];
+  }
+}
+
+/**
+ * Size in bytes of tool arguments, given as a JSON string or a parsed value
+ */
+export function argumentsSize(args: unknown): number | undefined {
+  if (args === undefined || args === null) return undefined;
+  const json = typeof args === 'string' ? args : JSON.stringify(args);
+  return Buffer.byteLength(json, 'utf8');
+}
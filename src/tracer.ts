@@ -1,15 +1,77 @@
 // OpenTelemetry Tracer for AgentBill SDK
-import { AgentBillConfig, SpanData, OtelExportPayload, TraceContext } from './types';
+import { AgentBillConfig, AttributionContext, SpanData, TraceContext, ExportStats, Exporter } from './types';
+import {
+  ExportQueue,
+  DEFAULT_MAX_BATCH_SIZE,
+  DEFAULT_SCHEDULED_DELAY_MS,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
+  cancelShutdownOnExit,
+  settlesWithin,
+  shutdownOnExit,
+} from './export-queue';
+import { CollectorExporter } from './exporters';
+import { encodeAttributes, encodeValue } from './otlp';
+import { getActiveContext, mergeAttribution } from './context';
+import { Sampler, UsageRollup } from './sampling';
+
+/**
+ * Per-span caps, matching the OpenTelemetry SDK defaults; anything beyond
+ * them is dropped and counted
+ */
+const SPAN_LIMITS = {
+  attributes: 128,
+  events: 128,
+  links: 128,
+};
 
 export class AgentBillTracer {
   private config: AgentBillConfig;
   private activeSpans: Map<string, SpanData> = new Map();
-  private pendingExports: SpanData[] = [];
+  private exporters: Exporter[];
+  private exportQueues: ExportQueue<SpanData>[];
   private exportTimer: NodeJS.Timeout | null = null;
+  private maxBatchSize: number;
+  private scheduledDelayMs: number;
+  private shutdownPromise: Promise<void> | null = null;
+  private spanEndListeners: Array<(span: SpanData) => void> = [];
+  private sampler?: Sampler;
+  private rollup?: UsageRollup;
 
   constructor(config: AgentBillConfig) {
     this.config = config;
-    this.log('Tracer initialized', { baseUrl: config.baseUrl });
+    if (config.sampling) {
+      this.sampler = new Sampler(config.sampling);
+      if (config.sampling.mode === 'usage_only') {
+        this.rollup = new UsageRollup();
+      }
+    }
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.scheduledDelayMs = config.scheduledDelayMs ?? DEFAULT_SCHEDULED_DELAY_MS;
+
+    // One queue per exporter so a failing destination never re-sends to the others
+    this.exporters = config.exporter
+      ? ([] as Exporter[]).concat(config.exporter)
+      : [new CollectorExporter(config)];
+    this.exportQueues = this.exporters.map((exporter, index) => new ExportQueue<SpanData>({
+      name: index === 0 ? 'spans' : `spans.${exporter.name || index}`,
+      send: spans => {
+        this.log('Exporting spans', { exporter: exporter.name, count: spans.length });
+        return exporter.export(spans);
+      },
+      maxQueueSize: config.maxQueueSize,
+      maxBatchSize: this.maxBatchSize,
+      exportTimeoutMs: config.exportTimeoutMs,
+      dropPolicy: config.dropPolicy,
+      retry: config.retry,
+      spillDirectory: config.spillDirectory,
+      log: (message, data) => this.log(message, data),
+    }));
+
+    if (config.flushOnExit !== false) {
+      shutdownOnExit(this);
+    }
+
+    this.log('Tracer initialized', { baseUrl: config.baseUrl, exporters: this.exporters.map(e => e.name) });
   }
 
   private log(message: string, data?: any) {
@@ -34,17 +96,31 @@ export class AgentBillTracer {
       .join('');
   }
 
-  startSpan(name: string, traceContext?: TraceContext): TraceContext {
+  /**
+   * Start a span. Without an explicit parent, the span nests under the
+   * enclosing `trace()` step or agent run, then under the active
+   * OpenTelemetry span when configured. `startTime` backdates spans of calls
+   * that already happened.
+   */
+  startSpan(
+    name: string,
+    parentContext?: TraceContext,
+    kind: SpanData['kind'] = 'client',
+    startTime = Date.now()
+  ): TraceContext {
+    const active = getActiveContext();
+    const traceContext = parentContext
+      || (active?.traceId && active.spanId ? { traceId: active.traceId, spanId: active.spanId } : undefined)
+      || this.activeOtelContext();
     const traceId = traceContext?.traceId || this.generateTraceId();
     const spanId = this.generateSpanId();
-    const startTime = Date.now();
 
     const span: SpanData = {
       traceId,
       spanId,
       parentSpanId: traceContext?.spanId,
       name,
-      kind: 'client',
+      kind,
       startTimeUnixNano: (startTime * 1000000).toString(),
       endTimeUnixNano: '', // Will be set when span ends
       attributes: [],
@@ -54,23 +130,81 @@ export class AgentBillTracer {
     this.activeSpans.set(spanId, span);
     this.log('Span started', { spanId, name });
 
-    return {
-      traceId,
-      spanId,
-      customerId: traceContext?.customerId || this.config.customerId,
-    };
+    // Attribution: config default, then withContext() scopes, then the explicit parent
+    let attribution: AttributionContext = { customerId: this.config.customerId };
+    if (active) attribution = mergeAttribution(attribution, active);
+    if (parentContext) attribution = mergeAttribution(attribution, parentContext);
+    this.setAttributionAttributes(spanId, attribution);
+
+    return { ...attribution, traceId, spanId };
   }
 
+  private setAttributionAttributes(spanId: string, attribution: AttributionContext) {
+    if (attribution.customerId) {
+      this.setSpanAttribute(spanId, 'customer.id', attribution.customerId);
+    }
+    if (attribution.userId) {
+      this.setSpanAttribute(spanId, 'user.id', attribution.userId);
+    }
+    if (attribution.sessionId) {
+      this.setSpanAttribute(spanId, 'session.id', attribution.sessionId);
+    }
+    if (attribution.tags && attribution.tags.length > 0) {
+      this.setSpanAttribute(spanId, 'agentbill.tags', attribution.tags);
+    }
+    for (const [key, value] of Object.entries(attribution.metadata || {})) {
+      this.setSpanAttribute(spanId, `agentbill.metadata.${key}`, value);
+    }
+  }
+
+  /**
+   * Set an attribute on a span, replacing any earlier value for the key
+   */
   setSpanAttribute(spanId: string, key: string, value: any) {
     const span = this.activeSpans.get(spanId);
     if (span) {
-      span.attributes.push({
-        key,
-        value: this.encodeValue(value),
-      });
+      setAttribute(span, key, value);
     }
   }
 
+  /**
+   * Record a timestamped event on a span; undefined attributes are skipped
+   */
+  addSpanEvent(spanId: string, name: string, attributes: Record<string, any> = {}) {
+    const span = this.activeSpans.get(spanId);
+    if (!span) return;
+
+    span.events = span.events || [];
+    if (span.events.length >= SPAN_LIMITS.events) {
+      span.droppedEventsCount = (span.droppedEventsCount || 0) + 1;
+      return;
+    }
+    span.events.push({
+      name,
+      timeUnixNano: (Date.now() * 1000000).toString(),
+      attributes: encodeAttributes(attributes),
+    });
+  }
+
+  /**
+   * Link a span to another span it relates to but does not descend from
+   */
+  addSpanLink(spanId: string, linked: TraceContext, attributes: Record<string, any> = {}) {
+    const span = this.activeSpans.get(spanId);
+    if (!span) return;
+
+    span.links = span.links || [];
+    if (span.links.length >= SPAN_LIMITS.links) {
+      span.droppedLinksCount = (span.droppedLinksCount || 0) + 1;
+      return;
+    }
+    span.links.push({
+      traceId: linked.traceId,
+      spanId: linked.spanId,
+      attributes: encodeAttributes(attributes),
+    });
+  }
+
   setSpanStatus(spanId: string, code: number, message?: string) {
     const span = this.activeSpans.get(spanId);
     if (span) {
@@ -78,6 +212,15 @@ export class AgentBillTracer {
     }
   }
 
+  /**
+   * Mark a span as failed, recording the error's message
+   */
+  setSpanError(spanId: string, error: unknown) {
+    this.setSpanStatus(spanId, 2, error instanceof Error ? error.message : 'Unknown error');
+    this.setSpanAttribute(spanId, 'error', true);
+    this.setSpanAttribute(spanId, 'error.message', error instanceof Error ? error.message : String(error));
+  }
+
   endSpan(spanId: string) {
     const span = this.activeSpans.get(spanId);
     if (!span) return;
@@ -85,97 +228,173 @@ export class AgentBillTracer {
     span.endTimeUnixNano = (Date.now() * 1000000).toString();
     
     this.activeSpans.delete(spanId);
-    this.pendingExports.push(span);
-
     this.log('Span ended', { spanId, name: span.name });
+    this.recordSpan(span);
+  }
+
+  /**
+   * Call `listener` with every finished span, before it is exported
+   */
+  onSpanEnd(listener: (span: SpanData) => void) {
+    this.spanEndListeners.push(listener);
+  }
+
+  /**
+   * Queue an already finished span for export. Listeners see every span;
+   * with sampling configured, only sampled spans are queued, marked with the
+   * ratio they were sampled at so counts can be re-weighted.
+   */
+  recordSpan(span: SpanData) {
+    for (const listener of this.spanEndListeners) {
+      try {
+        listener(span);
+      } catch (error) {
+        console.error('[AgentBill] Span end listener failed:', error);
+      }
+    }
+    if (this.shutdownPromise) {
+      this.log('Tracer shut down, dropping span', { spanId: span.spanId, name: span.name });
+      return;
+    }
+
+    if (this.sampler) {
+      const decision = this.sampler.sample(span);
+      if (!decision.sampled) {
+        const rolledUp = this.rollup?.add(span) ?? false;
+        this.log(rolledUp ? 'Span not sampled, rolling up its usage' : 'Span not sampled, dropping it', { spanId: span.spanId, name: span.name });
+        if (rolledUp) this.scheduleExport();
+        return;
+      }
+      setAttribute(span, 'agentbill.sampling.ratio', decision.ratio);
+      setAttribute(span, 'agentbill.sampling.adjusted_count', decision.ratio > 0 ? 1 / decision.ratio : 1);
+    }
+
+    for (const queue of this.exportQueues) {
+      queue.enqueue(span);
+    }
 
     // Schedule export (batch multiple spans)
     this.scheduleExport();
   }
 
-  private scheduleExport() {
-    if (this.exportTimer) {
-      clearTimeout(this.exportTimer);
+  /**
+   * Parent context from the active OpenTelemetry span, when configured
+   */
+  private activeOtelContext(): TraceContext | undefined {
+    const otelTrace = this.config.openTelemetry?.trace;
+    if (!otelTrace) return undefined;
+
+    try {
+      const spanContext = otelTrace.getActiveSpan()?.spanContext();
+      // The API returns an all-zero context when no SDK is registered
+      if (!spanContext || /^0+$/.test(spanContext.traceId)) return undefined;
+      return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+    } catch (error) {
+      this.log('Failed to read active OpenTelemetry span', error);
+      return undefined;
     }
+  }
 
-    // Export after 1 second or when 10 spans are collected
-    if (this.pendingExports.length >= 10) {
+  /**
+   * Export once a full batch is queued, and otherwise within
+   * `scheduledDelayMs` of the first queued span. The timer is not reset by
+   * later spans, so a steady trickle still gets exported, and it does not keep
+   * the process alive.
+   */
+  private scheduleExport() {
+    if (this.pendingCount() >= this.maxBatchSize) {
       this.exportSpans();
-    } else {
-      this.exportTimer = setTimeout(() => this.exportSpans(), 1000);
+    } else if (!this.exportTimer) {
+      this.exportTimer = setTimeout(() => {
+        this.exportTimer = null;
+        this.exportSpans();
+      }, this.scheduledDelayMs);
+      this.exportTimer.unref?.();
     }
   }
 
   private async exportSpans() {
-    if (this.pendingExports.length === 0) return;
-
-    const spans = [...this.pendingExports];
-    this.pendingExports = [];
-
-    const payload: OtelExportPayload = {
-      resourceSpans: [{
-        resource: {
-          attributes: [
-            { key: 'service.name', value: { stringValue: 'agentbill-sdk' } },
-            { key: 'service.version', value: { stringValue: '1.0.0' } },
-            ...(this.config.customerId 
-              ? [{ key: 'customer.id', value: { stringValue: this.config.customerId } }]
-              : []
-            ),
-          ],
-        },
-        scopeSpans: [{
-          scope: {
-            name: 'agentbill-instrumentation',
-            version: '1.0.0',
-          },
-          spans,
-        }],
-      }],
-    };
-
-    this.log('Exporting spans', { count: spans.length });
+    this.enqueueRollups();
+    await Promise.all(
+      this.exportQueues.filter(queue => queue.size > 0).map(queue => queue.drain())
+    );
+  }
 
-    try {
-      const baseUrl = this.config.baseUrl || 'https://uenhjwdtnxtchlmqarjo.supabase.co';
-      const response = await fetch(`${baseUrl}/functions/v1/otel-collector`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': this.config.apiKey,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('[AgentBill] Export failed:', error);
-      } else {
-        const result = await response.json();
-        this.log('Export successful', result);
+  /**
+   * Queue the usage rolled up since the last export
+   */
+  private enqueueRollups() {
+    if (!this.rollup || this.rollup.size === 0) return;
+    for (const span of this.rollup.drain(this)) {
+      for (const queue of this.exportQueues) {
+        queue.enqueue(span);
       }
-    } catch (error) {
-      console.error('[AgentBill] Export error:', error);
     }
   }
 
-  private encodeValue(value: any): any {
-    if (typeof value === 'string') {
-      return { stringValue: value };
-    } else if (typeof value === 'number') {
-      return Number.isInteger(value) 
-        ? { intValue: value }
-        : { doubleValue: value };
-    } else if (typeof value === 'boolean') {
-      return { boolValue: value };
-    }
-    return { stringValue: String(value) };
+  private pendingCount(): number {
+    return Math.max(...this.exportQueues.map(queue => queue.size));
+  }
+
+  /** Span exporters in use, including the default collector */
+  getExporters(): Exporter[] {
+    return [...this.exporters];
+  }
+
+  /**
+   * Export counters, summed across exporters
+   */
+  getExportStats(): ExportStats {
+    return this.exportQueues.reduce<ExportStats>((total, queue) => {
+      const stats = queue.getStats();
+      for (const key of Object.keys(total) as Array<keyof ExportStats>) {
+        total[key] += stats[key];
+      }
+      return total;
+    }, { queued: 0, exported: 0, dropped: 0, failed: 0, retries: 0, spilled: 0, replayed: 0 });
   }
 
   async flush() {
     if (this.exportTimer) {
       clearTimeout(this.exportTimer);
+      this.exportTimer = null;
     }
-    await this.exportSpans();
+    this.enqueueRollups();
+    await Promise.all(this.exportQueues.map(queue => queue.flush()));
+  }
+
+  /**
+   * Export queued spans and shut the exporters down, giving up after
+   * `timeoutMs`. Spans ended afterwards are dropped.
+   */
+  shutdown(timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS): Promise<void> {
+    if (!this.shutdownPromise) {
+      cancelShutdownOnExit(this);
+      this.shutdownPromise = this.drainBefore(timeoutMs);
+    }
+    return this.shutdownPromise;
+  }
+
+  private async drainBefore(timeoutMs: number) {
+    const drained = this.flush().then(() => Promise.all(this.exporters.map(exporter => exporter.shutdown?.())));
+    if (!(await settlesWithin(drained, timeoutMs))) {
+      console.warn(`[AgentBill] Shutdown timed out after ${timeoutMs}ms with ${this.pendingCount()} spans not exported`);
+    }
+    this.log('Tracer shut down');
+  }
+}
+
+/**
+ * Set an attribute on a span, replacing any earlier value for the key and
+ * counting those beyond the attribute limit as dropped
+ */
+function setAttribute(span: SpanData, key: string, value: any) {
+  const existing = span.attributes.find(attribute => attribute.key === key);
+  if (existing) {
+    existing.value = encodeValue(value);
+  } else if (span.attributes.length < SPAN_LIMITS.attributes) {
+    span.attributes.push({ key, value: encodeValue(value) });
+  } else {
+    span.droppedAttributesCount = (span.droppedAttributesCount || 0) + 1;
   }
 }
@@ -5,12 +5,395 @@ export interface AgentBillConfig {
   baseUrl?: string;
   customerId?: string;
   debug?: boolean;
+  /**
+   * Kill switch: wrapped clients are returned untouched and nothing is
+   * exported, while `trace()`, `wrapTool()` and the other helpers still run
+   * their callbacks (default: false)
+   */
+  disabled?: boolean;
+  /** Per-provider price overrides, merged over the bundled pricing table */
+  pricing?: PricingTable;
+  /** How much of each prompt is recorded on spans (default: 'hash') */
+  promptCapture?: PromptCaptureMode;
+  /** Scrubbers applied in 'redacted' mode (default: BUILT_IN_REDACTORS) */
+  promptRedactors?: PromptRedactor[];
+  /** Retry behaviour for failed exports */
+  retry?: RetryConfig;
+  /** Maximum number of spans held in memory awaiting export (default: 2048) */
+  maxQueueSize?: number;
+  /** Spans per export request; reaching it also triggers an export (default: 512) */
+  maxBatchSize?: number;
+  /** Longest a queued span waits before being exported (default: 1000) */
+  scheduledDelayMs?: number;
+  /** How long one export request may take before it is retried (default: 30000) */
+  exportTimeoutMs?: number;
+  /** Flush queued spans when the process exits or receives SIGTERM (default: true) */
+  flushOnExit?: boolean;
+  /** In-process usage ledger behind `getUsageSummary()`; `false` turns it off */
+  ledger?: LedgerConfig | false;
+  /** Which spans are discarded when the queue is full (default: 'drop_oldest') */
+  dropPolicy?: DropPolicy;
+  /** Directory where undeliverable batches are written and replayed on next start */
+  spillDirectory?: string;
+  /**
+   * Where spans are sent (default: the AgentBill collector). Pass an array to
+   * fan out; each exporter gets its own retrying queue.
+   */
+  exporter?: Exporter | Exporter[];
+  /** Join traces from `@opentelemetry/api` so AgentBill spans nest under active OTel spans */
+  openTelemetry?: OpenTelemetryConfig;
+  /** Spend and token limits enforced before each call */
+  budgets?: BudgetRule[];
+  /** Called whenever a call hits a budget limit, whatever the rule's action */
+  onBudgetEvent?: (event: BudgetEvent) => void;
+  /** Resource attributes describing the service sending spans */
+  resource?: ResourceConfig;
+  /** Encoding of OTLP/HTTP exports (default: 'http/json') */
+  protocol?: OtlpProtocol;
+  /** Compression of OTLP/HTTP exports (default: 'none') */
+  compression?: OtlpCompression;
+  /** Export only a share of spans; the usage ledger still sees every span */
+  sampling?: SamplingConfig;
 }
 
-export interface TraceContext {
+export type OtlpProtocol = 'http/json' | 'http/protobuf';
+
+export type OtlpCompression = 'none' | 'gzip';
+
+export interface ResourceConfig {
+  /** `service.name` (default: 'agentbill-sdk') */
+  serviceName?: string;
+  /** `service.version` */
+  serviceVersion?: string;
+  /** `deployment.environment.name`, e.g. 'production' */
+  environment?: string;
+  /** `deployment.id`, e.g. a release or build ID */
+  deployment?: string;
+  /** `host.name` */
+  host?: string;
+  /** Any other resource attributes */
+  attributes?: Record<string, string | number | boolean | string[]>;
+}
+
+export interface SamplingConfig {
+  /** Share of traces exported, from 0 to 1 (default: 1) */
+  ratio?: number;
+  /** Per-operation ratios; the first rule matching a span's name wins over `ratio` */
+  rules?: SamplingRule[];
+  /** Export every failed span whatever its ratio (default: true) */
+  keepErrors?: boolean;
+  /**
+   * 'drop' discards spans that are not sampled; 'usage_only' folds the usage
+   * of unsampled LLM calls into one rollup span per operation, customer and
+   * model at each export, so exported token and cost totals stay exact
+   * (default: 'drop')
+   */
+  mode?: SamplingMode;
+}
+
+export type SamplingMode = 'drop' | 'usage_only';
+
+export interface SamplingRule {
+  /** Span name, e.g. 'openai.embeddings.create'; `*` matches any run of characters */
+  operation: string | RegExp;
+  /** Share of matching traces exported, from 0 to 1 */
+  ratio: number;
+}
+
+/**
+ * Outcome of `checkConnection()`
+ */
+export interface ConnectionCheckResult {
+  /** Whether every checked endpoint accepted an empty export */
+  ok: boolean;
+  /** Endpoint checked; the first failing one when several were */
+  url?: string;
+  /** HTTP status, when a response arrived */
+  status?: number;
+  latencyMs: number;
+  error?: string;
+  /** Name of the exporter checked */
+  exporter?: string;
+  /** One result per exporter checked */
+  exporters?: ConnectionCheckResult[];
+  /** Set when the SDK is disabled and nothing was checked */
+  disabled?: boolean;
+  /** Set when no configured exporter can be checked (e.g. only console or file exporters) */
+  skipped?: boolean;
+}
+
+export interface TrackSignalParams {
+  event_name: string;
+  /** Revenue in USD brought in by the event */
+  revenue?: number;
+  data?: Record<string, any>;
+  /** Trace the revenue belongs to (default: the enclosing `trace()` step or agent run) */
+  traceId?: string;
+  /** Span the revenue belongs to, e.g. an LLM call recorded with `recordUsage()` */
+  spanId?: string;
+  /** Customer the revenue belongs to (default: from `withContext` or the config) */
+  customerId?: string;
+  /**
+   * Lets the collector discard duplicates, so a signal sent twice (by a
+   * retried export or by your own retries) is only counted once. Generated
+   * when not given.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * A signal as sent to the collector
+ */
+export interface SignalRecord {
+  event_name: string;
+  revenue: number;
+  customer_id?: string;
+  timestamp: number;
+  data: Record<string, any>;
+  data_source: 'sdk';
+  trace_id?: string;
+  span_id?: string;
+  idempotency_key: string;
+}
+
+export interface LedgerConfig {
+  /** Rows kept in memory; the oldest are dropped first (default: 50000) */
+  maxEntries?: number;
+  /** Also append every row to this file, e.g. for nightly reconciliation */
+  file?: string;
+  /** File format (default: 'csv' for `.csv` files, otherwise 'jsonl') */
+  format?: 'jsonl' | 'csv';
+}
+
+/**
+ * One LLM call or revenue signal recorded by the usage ledger
+ */
+export interface LedgerEntry {
+  /** Milliseconds since the epoch; calls are recorded when they end */
+  timestamp: number;
+  type: 'call' | 'signal';
+  customer?: string;
+  provider?: string;
+  model?: string;
+  /** Span name of a call, e.g. `openai.chat.completions.create` */
+  operation?: string;
+  /** Event name of a signal */
+  event?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  revenueUsd: number;
+  error: boolean;
+  traceId?: string;
+  spanId?: string;
+  idempotencyKey?: string;
+}
+
+export type UsageGroupKey = 'customer' | 'provider' | 'model' | 'operation';
+
+export interface UsageSummaryOptions {
+  /** Break the totals down by these keys (default: totals only) */
+  groupBy?: UsageGroupKey[];
+  /** Only count calls and signals at or after this time */
+  since?: Date | number | string;
+  /** Only count calls and signals before this time (default: now) */
+  until?: Date | number | string;
+  /** Only count this customer */
+  customerId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  signals: number;
+  revenueUsd: number;
+  /** Revenue minus cost */
+  marginUsd: number;
+}
+
+export interface UsageSummary {
+  /** Start of the period covered: `since`, or the oldest row still held */
+  since?: Date;
+  until: Date;
+  totals: UsageTotals;
+  /** One entry per combination of `groupBy` values, most expensive first; unknown values are `null` */
+  groups: Array<UsageTotals & Partial<Record<UsageGroupKey, string | null>>>;
+}
+
+export interface OpenTelemetryConfig {
+  /** The `trace` export of `@opentelemetry/api` */
+  trace: OtelTraceApi;
+}
+
+/**
+ * The subset of `@opentelemetry/api`'s `trace` used to find the active span
+ */
+export interface OtelTraceApi {
+  getActiveSpan(): { spanContext(): { traceId: string; spanId: string } } | undefined;
+}
+
+/**
+ * The subset of an OpenTelemetry SDK `ReadableSpan` read by AgentBillSpanExporter
+ */
+export interface OtelReadableSpan {
+  name: string;
+  kind: number;
+  spanContext(): { traceId: string; spanId: string };
+  /** SDK 1.x */
+  parentSpanId?: string;
+  /** SDK 2.x */
+  parentSpanContext?: { spanId: string };
+  startTime: [number, number];
+  endTime: [number, number];
+  attributes: Record<string, unknown>;
+  status: { code: number; message?: string };
+  events: Array<{ name: string; time: [number, number]; attributes?: Record<string, unknown> }>;
+  links?: Array<{ context: { traceId: string; spanId: string }; attributes?: Record<string, unknown> }>;
+  droppedAttributesCount?: number;
+  droppedEventsCount?: number;
+  droppedLinksCount?: number;
+}
+
+export interface AgentBillSpanExporterConfig extends AgentBillConfig {
+  /** Which OpenTelemetry spans to forward (default: spans with `gen_ai.*` attributes) */
+  filter?: (span: OtelReadableSpan) => boolean;
+}
+
+export interface ExportResult {
+  success: boolean;
+  /** Whether a failed export may succeed when retried */
+  retryable?: boolean;
+  /** Delay requested by the receiver before retrying (e.g. Retry-After) */
+  retryAfterMs?: number;
+  error?: string;
+  /** Items at the start of a failed batch that were delivered; only the rest are retried */
+  delivered?: number;
+}
+
+export interface Exporter {
+  /** Used in log messages and spill file names */
+  readonly name?: string;
+  export(spans: SpanData[]): Promise<ExportResult>;
+  shutdown?(): Promise<void>;
+  /** Probe the destination without exporting anything; used by `checkConnection()` */
+  checkConnection?(timeoutMs?: number): Promise<ConnectionCheckResult>;
+}
+
+export interface RetryConfig {
+  /** Attempts per batch, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Backoff before the first retry (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for backoff and Retry-After delays (default: 30000) */
+  maxDelayMs?: number;
+}
+
+export type DropPolicy = 'drop_oldest' | 'drop_newest';
+
+export interface ExportStats {
+  /** Items currently waiting in memory */
+  queued: number;
+  exported: number;
+  /** Items discarded because the queue was full */
+  dropped: number;
+  /** Items rejected by the collector with a non-retryable status */
+  failed: number;
+  /** Retry attempts made */
+  retries: number;
+  /** Items written to the spill directory */
+  spilled: number;
+  /** Items loaded back from the spill directory */
+  replayed: number;
+}
+
+/**
+ * - `off`: nothing about the prompt is recorded
+ * - `hash`: only a SHA-256 hash of the normalized prompt
+ * - `redacted`: prompt text with PII scrubbed, plus the hash of the scrubbed text
+ * - `full`: raw prompt text and its hash
+ */
+export type PromptCaptureMode = 'off' | 'hash' | 'redacted' | 'full';
+
+/**
+ * A regex (matches are replaced with `[REDACTED]`), a pattern with its own
+ * replacement, or a function that returns the scrubbed text
+ */
+export type PromptRedactor =
+  | RegExp
+  | { pattern: RegExp; replacement: string }
+  | ((text: string) => string);
+
+/**
+ * Who a call is made on behalf of; recorded on every span it applies to
+ */
+export interface AttributionContext {
+  customerId?: string;
+  userId?: string;
+  sessionId?: string;
+  tags?: string[];
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * - `global`: one limit shared by every call
+ * - `customer`: a separate limit per customer (or only `customerId`, when set)
+ * - `model`: a separate limit per model (or only models matching `model`, when set)
+ */
+export type BudgetScope = 'global' | 'customer' | 'model';
+
+/** Rolling window a budget is measured over; `month` is 30 days */
+export type BudgetWindow = 'minute' | 'hour' | 'day' | 'month';
+
+/**
+ * - `throw`: reject the call with a BudgetExceededError
+ * - `downgrade`: make the call with `downgradeModel` instead
+ * - `warn`: make the call and only report the event
+ */
+export type BudgetAction = 'throw' | 'downgrade' | 'warn';
+
+export interface BudgetRule {
+  /** Used in events and errors (default: `<scope>/<window>`) */
+  name?: string;
+  scope: BudgetScope;
+  window: BudgetWindow;
+  /** Restrict a `customer` rule to one customer */
+  customerId?: string;
+  /** Restrict a `model` rule to a model name or name prefix */
+  model?: string;
+  maxCostUsd?: number;
+  maxTokens?: number;
+  /** What happens once the limit is reached (default: 'throw') */
+  action?: BudgetAction;
+  /** Model used instead when `action` is 'downgrade' */
+  downgradeModel?: string;
+}
+
+export interface BudgetEvent {
+  rule: string;
+  action: BudgetAction;
+  scope: BudgetScope;
+  /** The customer id, model or 'global' the limit was tracked under */
+  key: string;
+  window: BudgetWindow;
+  /** Spend and tokens recorded in the window before this call */
+  spentUsd: number;
+  tokens: number;
+  maxCostUsd?: number;
+  maxTokens?: number;
+  /** Model the call asked for */
+  model: string;
+  /** Model the call was made with, when downgraded */
+  downgradedTo?: string;
+}
+
+export interface TraceContext extends AttributionContext {
   traceId: string;
   spanId: string;
-  customerId?: string;
 }
 
 export interface SpanData {
@@ -21,19 +404,66 @@ export interface SpanData {
   kind: 'client' | 'server' | 'internal';
   startTimeUnixNano: string;
   endTimeUnixNano: string;
-  attributes: Array<{ key: string; value: any }>;
+  attributes: OtlpKeyValue[];
+  status?: { code: number; message?: string };
+  events?: SpanEvent[];
+  links?: SpanLink[];
+  /** Attributes, events and links discarded once a span reached its limits */
+  droppedAttributesCount?: number;
+  droppedEventsCount?: number;
+  droppedLinksCount?: number;
+}
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: string;
+  attributes?: OtlpKeyValue[];
+}
+
+/**
+ * A span in another trace or branch that this span relates to, e.g. the LLM
+ * call that requested a tool run
+ */
+export interface SpanLink {
+  traceId: string;
+  spanId: string;
+  attributes?: OtlpKeyValue[];
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value: any;
+}
+
+/**
+ * A span as encoded in OTLP/JSON
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** `SpanKind` enum: 1 internal, 2 server, 3 client */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  droppedAttributesCount: number;
+  events: Array<Required<SpanEvent> & { droppedAttributesCount: number }>;
+  droppedEventsCount: number;
+  links: Array<Required<SpanLink> & { droppedAttributesCount: number }>;
+  droppedLinksCount: number;
   status?: { code: number; message?: string };
-  events?: Array<any>;
 }
 
 export interface OtelExportPayload {
   resourceSpans: Array<{
     resource: {
-      attributes: Array<{ key: string; value: any }>;
+      attributes: OtlpKeyValue[];
     };
     scopeSpans: Array<{
       scope: { name: string; version: string };
-      spans: SpanData[];
+      spans: OtlpSpan[];
     }>;
   }>;
 }
@@ -49,4 +479,242 @@ export interface AICallMetrics {
   prompt?: string;
 }
 
-export type SupportedProvider = 'openai' | 'anthropic' | 'cohere' | 'bedrock' | 'azure_openai' | 'mistral' | 'custom';
+export type SupportedProvider = 'openai' | 'anthropic' | 'cohere' | 'bedrock' | 'azure_openai' | 'mistral' | 'gemini' | 'custom';
+
+export interface OpenAICompatibleOptions {
+  /**
+   * Recorded as `gen_ai.system` and used to look up pricing, e.g. 'groq',
+   * 'together' or 'vllm'; use 'custom' for anything without a name
+   */
+  provider: SupportedProvider | (string & {});
+  /** Prices for this provider's models, merged over any bundled ones */
+  pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * Usage normalized across providers, as read from a response or accumulated
+ * from stream chunks
+ */
+export interface StreamUsage {
+  model?: string;
+  promptTokens?: number;
+  /** Portion of `promptTokens` served from the provider's prompt cache */
+  cachedPromptTokens?: number;
+  /** Portion of `promptTokens` written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+  completionTokens?: number;
+  /** Portion of `completionTokens` spent on hidden reasoning */
+  reasoningTokens?: number;
+  totalTokens?: number;
+  /** Built-in tool calls made by the provider, keyed by tool (e.g. `web_search`) */
+  toolCalls?: Record<string, number>;
+}
+
+export interface StreamHooks {
+  /** Called for every chunk before it is handed to the caller */
+  onChunk(chunk: any): void;
+  /** Called exactly once when the stream is drained, fails or is abandoned */
+  onEnd(error?: unknown, aborted?: boolean): void;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+/**
+ * Describes how to instrument an SDK: which methods to trace and how to read
+ * the model, prompt and usage of each call. Register custom definitions with
+ * `registerProvider()`.
+ */
+export interface ProviderDefinition {
+  /** Recorded as `gen_ai.system` and used to look up pricing */
+  name: string;
+  methods: ProviderMethod[];
+}
+
+export interface ProviderMethod {
+  /** Dotted path from the client to the method, e.g. `chat.completions.create` */
+  path: string;
+  /**
+   * Span name suffix, giving `<provider>.<operation>` (defaults to `path`).
+   * A function can derive it from the call arguments; returning undefined
+   * leaves that call untraced.
+   */
+  operation?: string | ((args: any[]) => string | undefined);
+  /** Set for methods that return their result synchronously */
+  sync?: boolean;
+  /** Set to false for calls that are never billed, so budgets do not block them */
+  budget?: boolean;
+  /** Model, prompt and request attributes of a call; `params` is its first argument */
+  request?(params: any, operation: string): ProviderRequest;
+  /** Copy of `params` with the model replaced, for budget downgrades (defaults to setting `model`) */
+  withModel?(params: any, model: string): any;
+  /** Usage of a non-streamed response; may read the response asynchronously */
+  response?(response: any, params: any, operation: string): ProviderUsage | undefined | Promise<ProviderUsage | undefined>;
+  /** A reader for the response when it is streamed, or undefined when it is not */
+  stream?(params: any, response: any, operation: string): ProviderStream | undefined;
+}
+
+export interface ProviderRequest {
+  /** Model the call will be billed under; omitted for calls without one */
+  model?: string;
+  /** Request params to capture as the prompt; omit to skip prompt capture */
+  prompt?: any;
+  /** Set on the span after the prompt; undefined values are skipped */
+  attributes?: SpanAttributes;
+}
+
+export interface ProviderUsage extends StreamUsage {
+  /** Why generation stopped, per choice (e.g. `stop`, `tool_calls`, `end_turn`) */
+  finishReasons?: string[];
+  /**
+   * Tools the model asked the caller to run (function calling); `toolCalls`
+   * counts the provider's built-in tools instead
+   */
+  toolInvocations?: ToolInvocation[];
+  /** Priced usage; defaults to the token counts */
+  cost?: CostUsage;
+  /** Priced usage spread over several models, e.g. batch results */
+  costByModel?: Record<string, CostUsage>;
+  /** Set on the span before usage; undefined values are skipped */
+  attributes?: SpanAttributes;
+}
+
+export interface ToolInvocation {
+  name: string;
+  /** Call id the tool result is sent back with */
+  id?: string;
+  /** Size of the JSON arguments in bytes */
+  argumentsSize?: number;
+}
+
+export interface WrapToolOptions<A extends any[]> {
+  /**
+   * Read the call id from the tool's arguments, to link the tool span to the
+   * LLM call that requested it. Without one, the oldest unanswered request
+   * for a tool of the same name is used.
+   */
+  callId?: (...args: A) => string | undefined;
+}
+
+export interface ProviderStream {
+  /** Property of the response holding the stream (defaults to the response itself) */
+  property?: string;
+  /** Accumulate usage from a chunk; returns true when the chunk carries output */
+  read(chunk: any, usage: StreamUsage): boolean;
+  /**
+   * Follow an event-emitting stream instead of wrapping its iterator; call
+   * `hooks.onEnd` when it completes
+   */
+  observe?(stream: any, hooks: StreamHooks): void;
+  /** Final usage of the stream (defaults to the accumulated usage) */
+  end?(usage: StreamUsage): ProviderUsage | undefined;
+  /** Set to false when the stream is not generated output, to skip streaming timings */
+  timing?: boolean;
+}
+
+/**
+ * Model and prompt of a call instrumented by hand
+ */
+export interface CallRequest {
+  /** Recorded as `gen_ai.system` and used to look up pricing */
+  provider: SupportedProvider | (string & {});
+  model: string;
+  /** Request params or prompt text, captured according to `promptCapture` */
+  prompt?: any;
+  attributes?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Usage of a call instrumented by hand; `totalTokens` defaults to the sum
+ */
+export interface CallUsage {
+  /** Model reported by the provider, when it differs from the requested one */
+  model?: string;
+  promptTokens?: number;
+  /** Portion of `promptTokens` served from the provider's prompt cache */
+  cachedPromptTokens?: number;
+  /** Portion of `promptTokens` written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+  completionTokens?: number;
+  /** Portion of `completionTokens` spent on hidden reasoning */
+  reasoningTokens?: number;
+  totalTokens?: number;
+  /** Billed units other than tokens (images, audio seconds, ...); defaults to the token counts */
+  cost?: CostUsage;
+}
+
+/**
+ * A finished call made outside a wrapped client, for `recordUsage()`
+ */
+export interface UsageRecord extends CallRequest, Omit<CallUsage, 'model'>, AttributionContext {
+  /** Span name suffix, giving `<provider>.<operation>` (default: 'call') */
+  operation?: string;
+  /** Duration of the call; the span is backdated by this much */
+  latencyMs?: number;
+  /** Set when the call failed */
+  error?: unknown;
+}
+
+/**
+ * Handle passed to the function given to `span()`
+ */
+export interface CallSpan extends TraceContext {
+  /**
+   * Record the provider, model and prompt. Budgets are checked here: returns
+   * the model to call, which differs from `request.model` when a budget
+   * downgrades it, and throws BudgetExceededError when one blocks the call.
+   */
+  setRequest(request: CallRequest): string;
+  /** Record usage; the span is priced when it ends */
+  setUsage(usage: CallUsage): void;
+  setAttribute(key: string, value: string | number | boolean): void;
+}
+
+/**
+ * Unit prices for a single model, in USD.
+ * Token prices are per 1M tokens.
+ */
+export interface ModelPricing {
+  input?: number;
+  output?: number;
+  cachedInput?: number;
+  cacheWrite?: number;
+  batchInput?: number;
+  batchOutput?: number;
+  /** Price per generated image, keyed by `quality/size`, `size` or `default` */
+  image?: Record<string, number>;
+  /** Price per minute of transcribed audio */
+  audioPerMinute?: number;
+  /** Price per 1M synthesized characters */
+  characters?: number;
+  /** Price per 1K search units (rerank) */
+  searchUnits?: number;
+}
+
+/**
+ * Pricing keyed by provider, then by model name or model name prefix
+ */
+export type PricingTable = Record<string, Record<string, ModelPricing>>;
+
+export interface CostUsage {
+  /** Input tokens billed at the regular rate */
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Input tokens served from the provider's prompt cache */
+  cachedInputTokens?: number;
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+  images?: number;
+  imageSize?: string;
+  imageQuality?: string;
+  audioSeconds?: number;
+  characters?: number;
+  searchUnits?: number;
+  /** Priced at batch API rates */
+  batch?: boolean;
+}
+
+export interface CostResult {
+  costUsd: number;
+  /** False when the model or a required unit price is missing from the pricing table */
+  known: boolean;
+}
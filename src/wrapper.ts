@@ -1,655 +1,881 @@
 // AI SDK Wrapper with OpenTelemetry Instrumentation
 import { AgentBillTracer } from './tracer';
-import { AgentBillConfig } from './types';
+import {
+  AgentBillConfig,
+  AttributionContext,
+  BudgetEvent,
+  CallRequest,
+  CallSpan,
+  CallUsage,
+  ConnectionCheckResult,
+  CostUsage,
+  ExportStats,
+  OpenAICompatibleOptions,
+  ProviderDefinition,
+  ProviderMethod,
+  ProviderRequest,
+  ProviderStream,
+  ProviderUsage,
+  SpanAttributes,
+  StreamUsage,
+  TraceContext,
+  TrackSignalParams,
+  UsageRecord,
+  UsageSummary,
+  UsageSummaryOptions,
+  WrapToolOptions,
+} from './types';
+import { instrumentStream, isAsyncIterable, StreamTiming } from './streaming';
+import { PricingRegistry, PRICING_VERSION } from './pricing';
+import { AgentRun, getActiveContext, getCallContext, runWithContext, traceStep, withAttribution } from './context';
+import { BudgetDecision, BudgetManager } from './budget';
+import { BudgetExceededError } from './errors';
+import { BUILT_IN_REDACTORS, hashPrompt, MAX_PROMPT_LENGTH, normalizePrompt, redactPrompt } from './prompt';
+import { getProvider } from './registry';
+import { detectOpenAIProvider } from './providers/openai';
+import { PendingToolCalls } from './tools';
+import { SignalTracker } from './signals';
+import { UsageLedger } from './ledger';
+
+/**
+ * Methods of a provider definition keyed by path segment
+ */
+interface MethodTree {
+  method?: ProviderMethod;
+  children: Map<string, MethodTree>;
+}
+
+/**
+ * A traced call in progress
+ */
+interface ProviderCall {
+  system: string;
+  method: ProviderMethod;
+  operation: string;
+  traceContext: TraceContext;
+  startTime: number;
+  params: any;
+  request: ProviderRequest;
+}
 
 export class AgentBillWrapper {
   private tracer: AgentBillTracer;
   private config: AgentBillConfig;
+  private pricing: PricingRegistry;
+  private budgets?: BudgetManager;
+  private pendingToolCalls = new PendingToolCalls();
+  private signals: SignalTracker;
+  private ledger?: UsageLedger;
 
   constructor(config: AgentBillConfig) {
+    if (config.disabled) {
+      // Spans and signals are still created, so the helpers keep working, but go nowhere
+      config = { ...config, exporter: [], flushOnExit: false };
+    }
     this.config = config;
     this.tracer = new AgentBillTracer(config);
+    this.signals = new SignalTracker(config);
+    if (config.ledger !== false) {
+      const ledger = new UsageLedger(config.ledger);
+      this.tracer.onSpanEnd(span => ledger.recordSpan(span));
+      this.signals.onTrack(signal => ledger.recordSignal(signal));
+      this.ledger = ledger;
+    }
+    this.pricing = new PricingRegistry(config.pricing);
+    if (config.budgets?.length) {
+      this.budgets = new BudgetManager(config.budgets, config.onBudgetEvent);
+    }
+  }
+
+  /**
+   * Wrap a client using a provider definition from the registry, either
+   * built in or added with `registerProvider()`
+   */
+  wrap<T extends object>(client: T, provider: string): T {
+    return this.instrumentClient(client, this.providerDefinition(provider), provider);
   }
 
   /**
-   * Wrap an OpenAI client instance
+   * Wrap an OpenAI client instance. Clients pointed at a known
+   * OpenAI-compatible provider through `baseURL` (Groq, Together, OpenRouter,
+   * Ollama, ...) are attributed to that provider.
    */
   wrapOpenAI<T extends object>(client: T): T {
-    const self = this;
+    return this.instrumentClient(client, this.providerDefinition('openai'), detectOpenAIProvider((client as any)?.baseURL));
+  }
 
-    return new Proxy(client, {
-      get(target: any, prop: string | symbol) {
-        const original = target[prop];
-
-        // Intercept chat.completions.create
-        if (prop === 'chat') {
-          return new Proxy(original, {
-            get(chatTarget: any, chatProp: string | symbol) {
-              if (chatProp === 'completions') {
-                return new Proxy(chatTarget[chatProp], {
-                  get(completionsTarget: any, completionsProp: string | symbol) {
-                    if (completionsProp === 'create') {
-                      return async function(params: any) {
-                        return self.instrumentOpenAICall(
-                          completionsTarget[completionsProp].bind(completionsTarget),
-                          params
-                        );
-                      };
-                    }
-                    return completionsTarget[completionsProp];
-                  }
-                });
-              }
-              return chatTarget[chatProp];
-            }
-          });
-        }
+  /**
+   * Wrap an `openai` client that talks to another provider or a self-hosted
+   * gateway (vLLM, LiteLLM, ...), attributing usage and cost to `provider`
+   */
+  wrapOpenAICompatible<T extends object>(client: T, options: OpenAICompatibleOptions): T {
+    if (options.pricing) {
+      this.pricing.addModels(options.provider, options.pricing);
+    }
+    return this.instrumentClient(client, this.providerDefinition('openai'), options.provider);
+  }
 
-        // Intercept embeddings.create
-        if (prop === 'embeddings') {
-          return new Proxy(original, {
-            get(embeddingsTarget: any, embeddingsProp: string | symbol) {
-              if (embeddingsProp === 'create') {
-                return async function(params: any) {
-                  return self.instrumentOpenAIEmbeddings(
-                    embeddingsTarget[embeddingsProp].bind(embeddingsTarget),
-                    params
-                  );
-                };
-              }
-              return embeddingsTarget[embeddingsProp];
-            }
-          });
-        }
+  /**
+   * Wrap an Anthropic client instance
+   */
+  wrapAnthropic<T extends object>(client: T): T {
+    return this.wrap(client, 'anthropic');
+  }
 
-        // Intercept images.generate
-        if (prop === 'images') {
-          return new Proxy(original, {
-            get(imagesTarget: any, imagesProp: string | symbol) {
-              if (imagesProp === 'generate') {
-                return async function(params: any) {
-                  return self.instrumentOpenAIImages(
-                    imagesTarget[imagesProp].bind(imagesTarget),
-                    params
-                  );
-                };
-              }
-              return imagesTarget[imagesProp];
-            }
-          });
-        }
+  /**
+   * Wrap an AWS Bedrock client instance
+   */
+  wrapBedrock<T extends object>(client: T): T {
+    return this.wrap(client, 'bedrock');
+  }
 
-        // Intercept audio.transcriptions.create and audio.speech.create
-        if (prop === 'audio') {
-          return new Proxy(original, {
-            get(audioTarget: any, audioProp: string | symbol) {
-              if (audioProp === 'transcriptions') {
-                return new Proxy(audioTarget[audioProp], {
-                  get(transcriptionsTarget: any, transcriptionsProp: string | symbol) {
-                    if (transcriptionsProp === 'create') {
-                      return async function(params: any) {
-                        return self.instrumentOpenAIAudioTranscription(
-                          transcriptionsTarget[transcriptionsProp].bind(transcriptionsTarget),
-                          params
-                        );
-                      };
-                    }
-                    return transcriptionsTarget[transcriptionsProp];
-                  }
-                });
-              }
-              if (audioProp === 'speech') {
-                return new Proxy(audioTarget[audioProp], {
-                  get(speechTarget: any, speechProp: string | symbol) {
-                    if (speechProp === 'create') {
-                      return async function(params: any) {
-                        return self.instrumentOpenAIAudioSpeech(
-                          speechTarget[speechProp].bind(speechTarget),
-                          params
-                        );
-                      };
-                    }
-                    return speechTarget[speechProp];
-                  }
-                });
-              }
-              return audioTarget[audioProp];
-            }
-          });
-        }
+  /**
+   * Wrap an Azure OpenAI client instance
+   */
+  wrapAzureOpenAI<T extends object>(client: T): T {
+    return this.wrap(client, 'azure_openai');
+  }
 
-        // Intercept moderations.create
-        if (prop === 'moderations') {
-          return new Proxy(original, {
-            get(moderationsTarget: any, moderationsProp: string | symbol) {
-              if (moderationsProp === 'create') {
-                return async function(params: any) {
-                  return self.instrumentOpenAIModerations(
-                    moderationsTarget[moderationsProp].bind(moderationsTarget),
-                    params
-                  );
-                };
-              }
-              return moderationsTarget[moderationsProp];
-            }
-          });
+  /**
+   * Wrap a Mistral client instance
+   */
+  wrapMistral<T extends object>(client: T): T {
+    return this.wrap(client, 'mistral');
+  }
+
+  /**
+   * Wrap a Google Gen AI client (`@google/genai`), for both the Gemini API and Vertex AI
+   */
+  wrapGemini<T extends object>(client: T): T {
+    return this.wrap(client, 'gemini');
+  }
+
+  /**
+   * Wrap a Cohere client instance (`CohereClient` or `CohereClientV2`)
+   */
+  wrapCohere<T extends object>(client: T): T {
+    return this.wrap(client, 'cohere');
+  }
+
+  private providerDefinition(name: string): ProviderDefinition {
+    const definition = getProvider(name);
+    if (!definition) {
+      throw new Error(`[AgentBill] Unknown provider "${name}"; add it with registerProvider()`);
+    }
+    return definition;
+  }
+
+  /**
+   * Proxy `client` so the methods of `definition` are traced, attributing
+   * calls to `system`
+   */
+  private instrumentClient<T extends object>(client: T, definition: ProviderDefinition, system: string): T {
+    if (this.config.disabled) return client;
+    return this.proxyMethods(client, methodTree(definition.methods), system);
+  }
+
+  private proxyMethods(target: any, tree: MethodTree, system: string): any {
+    const self = this;
+
+    return new Proxy(target, {
+      get(obj: any, prop: string | symbol) {
+        const original = obj[prop];
+        const node = typeof prop === 'string' ? tree.children.get(prop) : undefined;
+        if (!node || original === null || original === undefined) {
+          return original;
         }
 
-        return original;
+        const method = node.method;
+        if (method) {
+          if (typeof original !== 'function') return original;
+          return function(...args: any[]) {
+            return self.callMethod(system, method, (...callArgs: any[]) => original.apply(obj, callArgs), args);
+          };
+        }
+        return typeof original === 'object' || typeof original === 'function'
+          ? self.proxyMethods(original, node, system)
+          : original;
       }
     });
   }
 
-  private async instrumentOpenAICall(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.chat.completions.create');
-    const startTime = Date.now();
+  /**
+   * Trace one call of a provider method: check budgets, record the request,
+   * then record usage once the response (or its stream) completes
+   */
+  private callMethod(system: string, method: ProviderMethod, invoke: (...args: any[]) => any, args: any[]): any {
+    const operation = typeof method.operation === 'function' ? method.operation(args) : method.operation ?? method.path;
+    if (operation === undefined) {
+      return invoke(...args);
+    }
 
-    try {
-      // Set span attributes
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'unknown');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'unknown');
-
-      if (params.temperature !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.temperature', params.temperature);
-      }
-      if (params.max_tokens !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.max_tokens', params.max_tokens);
+    const call: ProviderCall = {
+      system,
+      method,
+      operation,
+      traceContext: this.startCallSpan(`${system}.${operation}`, args[0]),
+      startTime: Date.now(),
+      params: args[0],
+      request: {},
+    };
+    const execute = () => invoke(...this.prepareCall(call, args));
+
+    if (method.sync) {
+      try {
+        return this.completeCall(call, execute());
+      } catch (error) {
+        this.endSpanWithError(call.traceContext.spanId, error);
+        throw error;
       }
+    }
 
-      // Execute the original API call
-      const response = await originalFn(params);
-
-      // Calculate latency
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      // Extract token usage from response
-      if (response.usage) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', response.usage.total_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', response.usage.total_tokens || 0);
+    return (async () => {
+      try {
+        return await this.completeCall(call, await execute());
+      } catch (error) {
+        this.endSpanWithError(call.traceContext.spanId, error);
+        throw error;
       }
-
-      // Set success status
-      this.tracer.setSpanStatus(traceContext.spanId, 0); // 0 = OK
-      this.tracer.endSpan(traceContext.spanId);
-
-      return response;
-    } catch (error) {
-      // Set error status
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
-    }
+    })();
   }
 
-  private async instrumentOpenAIEmbeddings(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.embeddings.create');
-    const startTime = Date.now();
-
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'unknown');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'unknown');
-
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      if (response.usage) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', response.usage.total_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', response.usage.total_tokens || 0);
+  /**
+   * Apply budgets and set the request attributes, returning the arguments
+   * to call the provider with
+   */
+  private prepareCall(call: ProviderCall, args: any[]): any[] {
+    const { method, operation, traceContext } = call;
+
+    if (this.budgets && method.budget !== false) {
+      const model = method.request?.(args[0], operation).model || 'unknown';
+      const downgraded = this.applyBudgets(traceContext, model);
+      if (downgraded !== model) {
+        const params = method.withModel ? method.withModel(args[0], downgraded) : { ...args[0], model: downgraded };
+        args = [params, ...args.slice(1)];
       }
-
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
     }
+
+    call.params = args[0];
+    call.request = method.request?.(call.params, operation) ?? {};
+    this.setRequestAttributes(call);
+    return args;
   }
 
-  private async instrumentOpenAIImages(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.images.generate');
-    const startTime = Date.now();
+  private setRequestAttributes(call: ProviderCall) {
+    const spanId = call.traceContext.spanId;
+    const model = call.request.model;
+    this.tracer.setSpanAttribute(spanId, 'gen_ai.system', call.system);
+    if (model !== undefined) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.request.model', model);
+    }
+    this.tracer.setSpanAttribute(spanId, 'ai.provider', call.system);
+    if (model !== undefined) {
+      this.tracer.setSpanAttribute(spanId, 'ai.model', model);
+    }
+    if (call.request.prompt !== undefined) {
+      this.capturePrompt(spanId, call.request.prompt);
+    }
+    this.setSpanAttributes(spanId, call.request.attributes);
+  }
 
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'dall-e-3');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'dall-e-3');
-      
-      if (params.size) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'image.size', params.size);
+  /**
+   * Record the response of a call. Streamed responses keep the span open
+   * until the stream is drained; otherwise the span ends once usage is read.
+   */
+  private completeCall(call: ProviderCall, response: any): any {
+    const stream = call.method.stream?.(call.params, response, call.operation);
+    if (stream) {
+      const target = stream.property ? response?.[stream.property] : response;
+      if (stream.observe) {
+        stream.observe(target, this.streamHooks(call, stream));
+        return response;
       }
-      if (params.quality) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'image.quality', params.quality);
+      if (isAsyncIterable(target)) {
+        const instrumented = instrumentStream(target, this.streamHooks(call, stream));
+        if (!stream.property) return instrumented;
+        response[stream.property] = instrumented;
+        return response;
       }
+    }
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
+    const latencyMs = Date.now() - call.startTime;
+    this.tracer.setSpanAttribute(call.traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
 
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
+    const usage = call.method.response?.(response, call.params, call.operation);
+    if (usage instanceof Promise) {
+      return usage.then(resolved => this.finishCall(call, response, resolved));
     }
+    return this.finishCall(call, response, usage);
   }
 
-  private async instrumentOpenAIAudioTranscription(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.audio.transcriptions.create');
-    const startTime = Date.now();
-
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'whisper-1');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'whisper-1');
+  private finishCall(call: ProviderCall, response: any, usage: ProviderUsage | undefined) {
+    if (usage) {
+      this.setProviderUsage(call, usage);
+    }
+    this.tracer.setSpanStatus(call.traceContext.spanId, 0); // 0 = OK
+    this.tracer.endSpan(call.traceContext.spanId);
+    return response;
+  }
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
+  /**
+   * Start the span for a provider call, applying any `withCallContext()` attribution
+   */
+  private startCallSpan(name: string, params: any): TraceContext {
+    const callContext = getCallContext(params);
+    return callContext
+      ? withAttribution(callContext, () => this.tracer.startSpan(name))
+      : this.tracer.startSpan(name);
+  }
 
+  /**
+   * Record a call made outside a wrapped client (raw `fetch`, a local model,
+   * a framework runnable) as the same span a wrapped client would emit
+   */
+  recordUsage(record: UsageRecord): TraceContext {
+    const operation = record.operation || 'call';
+    const latencyMs = record.latencyMs ?? 0;
+    const startTime = Date.now() - latencyMs;
+    const traceContext = withAttribution(record, () =>
+      this.tracer.startSpan(`${record.provider}.${operation}`, undefined, 'client', startTime)
+    );
+
+    const call = manualCall(traceContext, operation, startTime, record);
+    this.setRequestAttributes(call);
+    this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
+    // `record.model` is the requested model, not one reported back by the provider
+    this.setProviderUsage(call, callUsage({ ...record, model: undefined }));
+
+    if (record.error) {
+      this.endSpanWithError(traceContext.spanId, record.error);
+    } else {
       this.tracer.setSpanStatus(traceContext.spanId, 0);
       this.tracer.endSpan(traceContext.spanId);
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
     }
+    return traceContext;
   }
 
-  private async instrumentOpenAIAudioSpeech(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.audio.speech.create');
+  /**
+   * Run `fn` inside a client span for a call made by hand. `fn` reports the
+   * request and usage through the span handle; latency, errors and cost are
+   * recorded as for wrapped clients, and calls made inside become children.
+   */
+  async span<R>(name: string, fn: (span: CallSpan) => R | Promise<R>): Promise<R> {
+    const traceContext = this.tracer.startSpan(name);
+    const spanId = traceContext.spanId;
     const startTime = Date.now();
-
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'tts-1');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'tts-1');
-      
-      if (params.voice) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'audio.voice', params.voice);
+    let call: ProviderCall | undefined;
+    let usage: CallUsage | undefined;
+
+    const span: CallSpan = {
+      ...traceContext,
+      setRequest: request => {
+        call = manualCall(traceContext, name, startTime, request);
+        if (this.budgets) {
+          call.request.model = this.applyBudgets(traceContext, request.model);
+        }
+        this.setRequestAttributes(call);
+        return call.request.model!;
+      },
+      setUsage: next => {
+        if (!call) {
+          throw new Error('[AgentBill] Call setRequest() before setUsage()');
+        }
+        usage = { ...usage, ...next };
+      },
+      setAttribute: (key, value) => this.tracer.setSpanAttribute(spanId, key, value),
+    };
+
+    const end = () => {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.response.latency_ms', Date.now() - startTime);
+      if (call && usage) {
+        this.setProviderUsage(call, callUsage(usage));
       }
+    };
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
-      return response;
+    try {
+      const result = await runWithContext(traceContext, () => fn(span));
+      end();
+      this.tracer.setSpanStatus(spanId, 0);
+      this.tracer.endSpan(spanId);
+      return result;
     } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
+      end();
+      this.endSpanWithError(spanId, error);
       throw error;
     }
   }
 
-  private async instrumentOpenAIModerations(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('openai.moderations.create');
-    const startTime = Date.now();
+  /**
+   * Wrap a tool implementation so each run becomes a span. Runs answering a
+   * tool call requested by a traced LLM response link to that LLM call's
+   * span, and become its children unless run inside a `trace()` step or
+   * agent run.
+   */
+  wrapTool<A extends any[], R>(
+    name: string,
+    fn: (...args: A) => R | Promise<R>,
+    options: WrapToolOptions<A> = {}
+  ): (...args: A) => Promise<R> {
+    return async (...args: A) => {
+      const callId = options.callId?.(...args);
+      const requested = this.pendingToolCalls.take(name, callId);
+      const parent = getActiveContext()?.spanId ? undefined : requested?.requestedBy;
+      const traceContext = this.tracer.startSpan(`tool.${name}`, parent, 'internal');
+      const spanId = traceContext.spanId;
+      const startTime = Date.now();
+
+      if (requested) {
+        this.tracer.addSpanLink(spanId, requested.requestedBy, { 'agentbill.link.type': 'tool_call' });
+      }
 
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'text-moderation-latest');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'text-moderation-latest');
+      this.tracer.setSpanAttribute(spanId, 'agentbill.span.type', 'tool');
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.tool.name', name);
+      const id = callId ?? requested?.id;
+      if (id !== undefined) {
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.tool.call.id', id);
+      }
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
+      try {
+        const result = await runWithContext(traceContext, () => fn(...args));
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.response.latency_ms', Date.now() - startTime);
+        this.tracer.setSpanStatus(spanId, 0);
+        this.tracer.endSpan(spanId);
+        return result;
+      } catch (error) {
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.response.latency_ms', Date.now() - startTime);
+        this.endSpanWithError(spanId, error);
+        throw error;
+      }
+    };
+  }
 
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
-    }
+  /**
+   * Run `fn` with customer, user, session, tag and metadata attribution
+   * applied to every span started inside it
+   */
+  withContext<R>(attribution: AttributionContext, fn: () => R): R {
+    return withAttribution(attribution, fn);
   }
 
   /**
-   * Wrap an Anthropic client instance
+   * Hooks that accumulate usage from stream chunks and end the span once
+   * the stream is drained, fails or is abandoned
    */
-  wrapAnthropic<T extends object>(client: T): T {
-    const self = this;
+  private streamHooks(call: ProviderCall, stream: ProviderStream) {
+    const usage: StreamUsage = {};
+    const timing: StreamTiming = { startTime: call.startTime, responseTime: Date.now() };
+    let finished = false;
 
-    return new Proxy(client, {
-      get(target: any, prop: string | symbol) {
-        const original = target[prop];
-
-        // Intercept messages.create
-        if (prop === 'messages') {
-          return new Proxy(original, {
-            get(messagesTarget: any, messagesProp: string | symbol) {
-              if (messagesProp === 'create') {
-                return async function(params: any) {
-                  return self.instrumentAnthropicCall(
-                    messagesTarget[messagesProp].bind(messagesTarget),
-                    params
-                  );
-                };
-              }
-              return messagesTarget[messagesProp];
-            }
-          });
-        }
+    if (stream.timing !== false) {
+      this.tracer.setSpanAttribute(call.traceContext.spanId, 'gen_ai.request.stream', true);
+    }
 
-        return original;
-      }
-    });
+    return {
+      onChunk: (chunk: any) => {
+        try {
+          if (stream.read(chunk, usage) && timing.firstTokenTime === undefined) {
+            timing.firstTokenTime = Date.now();
+          }
+        } catch (error) {
+          // Never let usage extraction break the caller's stream
+          this.log('Failed to read stream chunk', error);
+        }
+      },
+      onEnd: (error?: unknown, aborted?: boolean) => {
+        if (finished) return;
+        finished = true;
+        this.endStreamSpan(call, stream, usage, timing, error, aborted);
+      },
+    };
   }
 
-  private async instrumentAnthropicCall(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('anthropic.messages.create');
-    const startTime = Date.now();
-
-    try {
-      // Set span attributes
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'anthropic');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'unknown');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'anthropic');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'unknown');
-
-      if (params.temperature !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.temperature', params.temperature);
-      }
-      if (params.max_tokens !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.max_tokens', params.max_tokens);
+  private endStreamSpan(
+    call: ProviderCall,
+    stream: ProviderStream,
+    usage: StreamUsage,
+    timing: StreamTiming,
+    error?: unknown,
+    aborted?: boolean
+  ) {
+    const spanId = call.traceContext.spanId;
+    const endTime = Date.now();
+    this.tracer.setSpanAttribute(spanId, 'gen_ai.response.latency_ms', endTime - timing.startTime);
+    if (stream.timing !== false) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.response.stream_duration_ms', endTime - timing.responseTime);
+      if (timing.firstTokenTime !== undefined) {
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.response.time_to_first_token_ms', timing.firstTokenTime - timing.startTime);
       }
+    }
 
-      // Execute the original API call
-      const response = await originalFn(params);
-
-      // Calculate latency
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      // Extract token usage from response
-      if (response.usage) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', response.usage.input_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.completion_tokens', response.usage.output_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', (response.usage.input_tokens || 0) + (response.usage.output_tokens || 0));
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', response.usage.input_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.completion_tokens', response.usage.output_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', (response.usage.input_tokens || 0) + (response.usage.output_tokens || 0));
+    const finalUsage = stream.end ? stream.end(usage) : usage;
+    if (finalUsage) {
+      this.setProviderUsage(call, completeUsage(finalUsage));
+    }
+    if (stream.timing !== false && !hasUsage(finalUsage)) {
+      // e.g. an OpenAI stream requested without `stream_options.include_usage`;
+      // flagged so the call is not mistaken for a free one
+      this.tracer.setSpanAttribute(spanId, 'agentbill.usage.unknown', true);
+      this.log('Stream ended without usage; its tokens and cost are unknown', { spanId, operation: call.operation });
+    }
+
+    if (error) {
+      this.tracer.setSpanError(spanId, error);
+    } else {
+      if (aborted) {
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.response.stream_aborted', true);
       }
+      this.tracer.setSpanStatus(spanId, 0);
+    }
+    this.tracer.endSpan(spanId);
+  }
 
-      // Set success status
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
+  private endSpanWithError(spanId: string, error: unknown) {
+    this.tracer.setSpanError(spanId, error);
+    this.tracer.endSpan(spanId);
+  }
 
-      return response;
-    } catch (error) {
-      // Set error status
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
+  private setSpanAttributes(spanId: string, attributes?: SpanAttributes) {
+    for (const [key, value] of Object.entries(attributes || {})) {
+      if (value !== undefined) {
+        this.tracer.setSpanAttribute(spanId, key, value);
+      }
     }
   }
 
   /**
-   * Wrap an AWS Bedrock client instance
+   * Record the usage of a call: provider-specific attributes, token counts,
+   * cost (priced from the token counts unless given) and token breakdowns
    */
-  wrapBedrock<T extends object>(client: T): T {
-    const self = this;
+  private setProviderUsage(call: ProviderCall, usage: ProviderUsage) {
+    const spanId = call.traceContext.spanId;
+    if (usage.model) {
+      // e.g. the dated snapshot, or the model behind an Azure deployment name
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.response.model', usage.model);
+    }
+    this.setSpanAttributes(spanId, usage.attributes);
+    this.setUsageAttributes(spanId, usage);
+
+    const model = usage.model || call.request.model || 'unknown';
+    // Budgets are enforced on the requested model, so spend is counted under it
+    // too, not under the dated snapshot a provider may report back
+    const budgetModel = call.request.model || model;
+    if (usage.costByModel) {
+      this.setTotalCostAttributes(call.traceContext, call.system, new Map(Object.entries(usage.costByModel)), budgetModel);
+    } else if (usage.cost) {
+      this.setTotalCostAttributes(call.traceContext, call.system, new Map([[model, usage.cost]]), budgetModel);
+    } else if (usage.promptTokens !== undefined || usage.completionTokens !== undefined) {
+      this.setTotalCostAttributes(call.traceContext, call.system, new Map([[model, streamCostUsage(usage)]]), budgetModel);
+    }
+    this.setUsageDetailAttributes(spanId, usage);
 
-    return new Proxy(client, {
-      get(target: any, prop: string | symbol) {
-        const original = target[prop];
-
-        // Intercept invokeModel calls
-        if (prop === 'invokeModel' || prop === 'send') {
-          return async function(command: any) {
-            return self.instrumentBedrockCall(
-              original.bind(target),
-              command
-            );
-          };
-        }
+    if (usage.finishReasons?.length) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.response.finish_reasons', usage.finishReasons);
+    }
+    for (const invocation of usage.toolInvocations || []) {
+      this.tracer.addSpanEvent(spanId, 'gen_ai.tool.call', {
+        'gen_ai.tool.name': invocation.name,
+        'gen_ai.tool.call.id': invocation.id,
+        'gen_ai.tool.call.arguments_size': invocation.argumentsSize,
+      });
+      this.pendingToolCalls.add({ name: invocation.name, id: invocation.id, requestedBy: call.traceContext });
+    }
+  }
 
-        return original;
+  /**
+   * Token counts; counts a provider does not report (e.g. completion tokens
+   * of embeddings) are left unset
+   */
+  private setUsageAttributes(spanId: string, usage: StreamUsage) {
+    const counts: Array<[string, number | undefined]> = [
+      ['prompt_tokens', usage.promptTokens],
+      ['completion_tokens', usage.completionTokens],
+      ['total_tokens', usage.totalTokens],
+    ];
+    for (const [name, value] of counts) {
+      if (value !== undefined) {
+        this.tracer.setSpanAttribute(spanId, `gen_ai.usage.${name}`, value);
       }
-    });
+    }
+    for (const [name, value] of counts) {
+      if (value !== undefined) {
+        this.tracer.setSpanAttribute(spanId, `ai.${name}`, value);
+      }
+    }
   }
 
-  private async instrumentBedrockCall(originalFn: Function, command: any) {
-    const traceContext = this.tracer.startSpan('bedrock.invokeModel');
-    const startTime = Date.now();
+  /**
+   * Token breakdowns and built-in tool calls; only set when reported
+   */
+  private setUsageDetailAttributes(spanId: string, usage: StreamUsage) {
+    if (usage.cachedPromptTokens) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.usage.cached_tokens', usage.cachedPromptTokens);
+    }
+    if (usage.cacheWriteTokens) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.usage.cache_creation_tokens', usage.cacheWriteTokens);
+    }
+    if (usage.reasoningTokens) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.usage.reasoning_tokens', usage.reasoningTokens);
+    }
+    for (const [tool, count] of Object.entries(usage.toolCalls || {})) {
+      this.tracer.setSpanAttribute(spanId, `gen_ai.usage.tool_calls.${tool}`, count);
+    }
+  }
 
-    try {
-      // Extract model from command
-      const modelId = command.modelId || command.input?.modelId || 'unknown';
-      
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'bedrock');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', modelId);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'bedrock');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', modelId);
-
-      const response = await originalFn(command);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      // Parse response body for token usage
-      if (response.body) {
-        const bodyText = await response.body.transformToString();
-        const bodyJson = JSON.parse(bodyText);
-        
-        // Different Bedrock models have different response formats
-        if (bodyJson.usage) {
-          this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', bodyJson.usage.input_tokens || 0);
-          this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.completion_tokens', bodyJson.usage.output_tokens || 0);
-          this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', (bodyJson.usage.input_tokens || 0) + (bodyJson.usage.output_tokens || 0));
-          this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', bodyJson.usage.input_tokens || 0);
-          this.tracer.setSpanAttribute(traceContext.spanId, 'ai.completion_tokens', bodyJson.usage.output_tokens || 0);
-          this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', (bodyJson.usage.input_tokens || 0) + (bodyJson.usage.output_tokens || 0));
-        }
-      }
+  /**
+   * Record the combined cost of usage spread over one or more models, and
+   * count it against budgets under `budgetModel`
+   */
+  private setTotalCostAttributes(
+    traceContext: TraceContext,
+    provider: string,
+    usageByModel: Map<string, CostUsage>,
+    budgetModel: string
+  ) {
+    const spanId = traceContext.spanId;
+    let totalCostUsd = 0;
+    let totalTokens = 0;
+    let allKnown = true;
+
+    for (const [model, usage] of usageByModel) {
+      const { costUsd, known } = this.pricing.calculateCost(provider, model, usage);
+      totalCostUsd += costUsd;
+      totalTokens += usageTokens(usage);
+      allKnown = allKnown && known;
+    }
+    this.budgets?.record(traceContext.customerId, budgetModel, totalCostUsd, totalTokens);
+
+    this.tracer.setSpanAttribute(spanId, 'agentbill.pricing.version', PRICING_VERSION);
+    if (allKnown) {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.usage.cost_usd', totalCostUsd);
+    } else {
+      // Flag instead of reporting a misleading $0 cost
+      this.tracer.setSpanAttribute(spanId, 'agentbill.pricing.unknown_model', true);
+    }
+  }
 
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
+  private applyBudgets(traceContext: TraceContext, model: string): string {
+    const spanId = traceContext.spanId;
+    const setBudgetAttributes = (event: BudgetEvent) => {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.request.model', event.model);
+      this.tracer.setSpanAttribute(spanId, 'agentbill.budget.exceeded', true);
+      this.tracer.setSpanAttribute(spanId, 'agentbill.budget.rule', event.rule);
+      this.tracer.setSpanAttribute(spanId, 'agentbill.budget.action', event.action);
+    };
 
-      return response;
+    let decision: BudgetDecision;
+    try {
+      decision = this.budgets!.enforce(traceContext.customerId, model);
     } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
+      if (error instanceof BudgetExceededError) {
+        setBudgetAttributes(error.event);
+      }
       throw error;
     }
+
+    decision.events.forEach(setBudgetAttributes);
+    if (decision.model !== model) {
+      this.tracer.setSpanAttribute(spanId, 'agentbill.budget.original_model', model);
+      this.log('Budget reached, downgrading model', { from: model, to: decision.model });
+    }
+    return decision.model;
   }
 
   /**
-   * Wrap an Azure OpenAI client instance
+   * Record the prompt according to the configured capture mode. In 'redacted'
+   * mode the hash is taken over the scrubbed text so nothing derived from raw
+   * PII leaves the process.
    */
-  wrapAzureOpenAI<T extends object>(client: T): T {
-    const self = this;
-
-    return new Proxy(client, {
-      get(target: any, prop: string | symbol) {
-        const original = target[prop];
-
-        // Azure OpenAI uses the same structure as OpenAI
-        if (prop === 'chat') {
-          return new Proxy(original, {
-            get(chatTarget: any, chatProp: string | symbol) {
-              if (chatProp === 'completions') {
-                return new Proxy(chatTarget[chatProp], {
-                  get(completionsTarget: any, completionsProp: string | symbol) {
-                    if (completionsProp === 'create') {
-                      return async function(params: any) {
-                        return self.instrumentAzureOpenAICall(
-                          completionsTarget[completionsProp].bind(completionsTarget),
-                          params
-                        );
-                      };
-                    }
-                    return completionsTarget[completionsProp];
-                  }
-                });
-              }
-              return chatTarget[chatProp];
-            }
-          });
-        }
+  private capturePrompt(spanId: string, params: any) {
+    const mode = this.config.promptCapture || 'hash';
+    if (mode === 'off') return;
 
-        return original;
-      }
-    });
-  }
+    let prompt: string | undefined;
+    try {
+      prompt = normalizePrompt(params);
+    } catch (error) {
+      this.log('Failed to normalize prompt', error);
+    }
+    if (prompt === undefined) return;
 
-  private async instrumentAzureOpenAICall(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('azure_openai.chat.completions.create');
-    const startTime = Date.now();
+    if (mode === 'redacted') {
+      prompt = redactPrompt(prompt, this.config.promptRedactors || BUILT_IN_REDACTORS);
+    }
 
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'azure_openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'unknown');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'azure_openai');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'unknown');
+    const hash = hashPrompt(prompt);
+    this.tracer.setSpanAttribute(spanId, 'gen_ai.prompt.hash', hash);
+    this.tracer.setSpanAttribute(spanId, 'ai.prompt_hash', hash);
 
-      if (params.temperature !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.temperature', params.temperature);
-      }
-      if (params.max_tokens !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.max_tokens', params.max_tokens);
+    if (mode === 'redacted' || mode === 'full') {
+      this.tracer.setSpanAttribute(spanId, 'gen_ai.prompt.content', prompt.slice(0, MAX_PROMPT_LENGTH));
+      if (prompt.length > MAX_PROMPT_LENGTH) {
+        this.tracer.setSpanAttribute(spanId, 'gen_ai.prompt.truncated', true);
       }
+    }
+  }
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      if (response.usage) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', response.usage.total_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', response.usage.total_tokens || 0);
-      }
+  private log(message: string, data?: any) {
+    if (this.config.debug) {
+      console.log(`[AgentBill] ${message}`, data || '');
+    }
+  }
 
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
+  /**
+   * Run `fn` inside a span; calls made within it become its children
+   */
+  trace<R>(
+    name: string,
+    fn: (context: TraceContext) => R | Promise<R>,
+    attributes?: Record<string, string | number | boolean>
+  ): Promise<R> {
+    return traceStep(this.tracer, name, fn, { 'agentbill.span.type': 'step', ...attributes });
+  }
 
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
-    }
+  /**
+   * Start a root span for an agent task
+   */
+  startAgentRun(name: string, attributes?: Record<string, string | number | boolean>): AgentRun {
+    return new AgentRun(this.tracer, name, attributes);
   }
 
   /**
-   * Wrap a Mistral client instance
+   * Queue a revenue signal, tied to the enclosing trace unless IDs are given;
+   * returns its idempotency key
    */
-  wrapMistral<T extends object>(client: T): T {
-    const self = this;
+  trackSignal(params: TrackSignalParams): string {
+    return this.signals.track(params);
+  }
 
-    return new Proxy(client, {
-      get(target: any, prop: string | symbol) {
-        const original = target[prop];
-
-        // Intercept chat.complete or chat.stream
-        if (prop === 'chat') {
-          return new Proxy(original, {
-            get(chatTarget: any, chatProp: string | symbol) {
-              if (chatProp === 'complete' || chatProp === 'stream') {
-                return async function(params: any) {
-                  return self.instrumentMistralCall(
-                    chatTarget[chatProp].bind(chatTarget),
-                    params
-                  );
-                };
-              }
-              return chatTarget[chatProp];
-            }
-          });
-        }
+  /**
+   * Tokens, calls, errors, cost, revenue and margin recorded by the usage ledger
+   */
+  getUsageSummary(options?: UsageSummaryOptions): UsageSummary {
+    if (!this.ledger) {
+      throw new Error('[AgentBill] The usage ledger is disabled (ledger: false)');
+    }
+    return this.ledger.getSummary(options);
+  }
 
-        return original;
-      }
-    });
+  getExportStats(): ExportStats {
+    return this.tracer.getExportStats();
   }
 
-  private async instrumentMistralCall(originalFn: Function, params: any) {
-    const traceContext = this.tracer.startSpan('mistral.chat.complete');
-    const startTime = Date.now();
+  getSignalExportStats(): ExportStats {
+    return this.signals.getExportStats();
+  }
 
-    try {
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.system', 'mistral');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.model', params.model || 'unknown');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.provider', 'mistral');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'ai.model', params.model || 'unknown');
+  /**
+   * Probe every configured exporter that supports it (the collector and
+   * OTLP/HTTP endpoints); console, file and in-memory exporters are skipped
+   */
+  async checkConnection(timeoutMs?: number): Promise<ConnectionCheckResult> {
+    if (this.config.disabled) {
+      return { ok: true, latencyMs: 0, disabled: true };
+    }
 
-      if (params.temperature !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.temperature', params.temperature);
-      }
-      if (params.max_tokens !== undefined) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.request.max_tokens', params.max_tokens);
-      }
+    const results = await Promise.all(this.tracer.getExporters()
+      .filter(exporter => exporter.checkConnection)
+      .map(async exporter => ({ ...await exporter.checkConnection!(timeoutMs), exporter: exporter.name })));
+    if (results.length === 0) {
+      return { ok: true, latencyMs: 0, skipped: true, exporters: [] };
+    }
+    const summary = results.find(result => !result.ok) || results[0];
+    return { ...summary, ok: results.every(result => result.ok), exporters: results };
+  }
 
-      const response = await originalFn(params);
-      const latencyMs = Date.now() - startTime;
-      this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.response.latency_ms', latencyMs);
-
-      // Mistral uses usage object similar to OpenAI
-      if (response.usage) {
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'gen_ai.usage.total_tokens', response.usage.total_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.prompt_tokens', response.usage.prompt_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.completion_tokens', response.usage.completion_tokens || 0);
-        this.tracer.setSpanAttribute(traceContext.spanId, 'ai.total_tokens', response.usage.total_tokens || 0);
-      }
+  async flush() {
+    await Promise.all([this.tracer.flush(), this.signals.flush(), this.ledger?.flush()]);
+  }
 
-      this.tracer.setSpanStatus(traceContext.spanId, 0);
-      this.tracer.endSpan(traceContext.spanId);
+  async shutdown(timeoutMs?: number) {
+    await Promise.all([this.tracer.shutdown(timeoutMs), this.signals.shutdown(timeoutMs), this.ledger?.flush()]);
+  }
+}
 
-      return response;
-    } catch (error) {
-      this.tracer.setSpanStatus(traceContext.spanId, 2, error instanceof Error ? error.message : 'Unknown error');
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error', true);
-      this.tracer.setSpanAttribute(traceContext.spanId, 'error.message', error instanceof Error ? error.message : String(error));
-      this.tracer.endSpan(traceContext.spanId);
-      throw error;
+/**
+ * Group method paths by segment, e.g. `chat.completions.create`
+ */
+function methodTree(methods: ProviderMethod[]): MethodTree {
+  const root: MethodTree = { children: new Map() };
+  for (const method of methods) {
+    let node = root;
+    for (const segment of method.path.split('.')) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
     }
+    node.method = method;
   }
+  return root;
+}
 
-  async flush() {
-    await this.tracer.flush();
+/**
+ * A call instrumented by hand, set up like one made through a provider definition
+ */
+function manualCall(traceContext: TraceContext, operation: string, startTime: number, request: CallRequest): ProviderCall {
+  const prompt = typeof request.prompt === 'string' ? { prompt: request.prompt } : request.prompt;
+  return {
+    system: request.provider,
+    method: { path: operation },
+    operation,
+    traceContext,
+    startTime,
+    params: prompt,
+    request: { model: request.model, prompt, attributes: request.attributes },
+  };
+}
+
+function callUsage(usage: CallUsage): ProviderUsage {
+  return completeUsage({
+    model: usage.model,
+    promptTokens: usage.promptTokens,
+    cachedPromptTokens: usage.cachedPromptTokens,
+    cacheWriteTokens: usage.cacheWriteTokens,
+    completionTokens: usage.completionTokens,
+    reasoningTokens: usage.reasoningTokens,
+    totalTokens: usage.totalTokens,
+    cost: usage.cost,
+  });
+}
+
+/**
+ * Whether a call reported any token counts or cost
+ */
+function hasUsage(usage: ProviderUsage | undefined): boolean {
+  return usage !== undefined && (usage.promptTokens !== undefined || usage.completionTokens !== undefined
+    || usage.cost !== undefined || usage.costByModel !== undefined);
+}
+
+/**
+ * Once any token count is known, missing counts are reported as zero and
+ * the total defaults to their sum
+ */
+function completeUsage(usage: ProviderUsage): ProviderUsage {
+  if (usage.promptTokens === undefined && usage.completionTokens === undefined) {
+    return { ...usage, totalTokens: undefined };
   }
+  const promptTokens = usage.promptTokens || 0;
+  const completionTokens = usage.completionTokens || 0;
+  return { ...usage, promptTokens, completionTokens, totalTokens: usage.totalTokens || promptTokens + completionTokens };
+}
+
+/**
+ * Split the prompt tokens of normalized usage into the parts priced differently
+ */
+function streamCostUsage(usage: StreamUsage): CostUsage {
+  const cachedTokens = usage.cachedPromptTokens || 0;
+  const cacheWriteTokens = usage.cacheWriteTokens || 0;
+  return {
+    inputTokens: (usage.promptTokens || 0) - cachedTokens - cacheWriteTokens,
+    cachedInputTokens: cachedTokens,
+    cacheWriteTokens,
+    outputTokens: usage.completionTokens || 0,
+  };
+}
+
+function usageTokens(usage: CostUsage): number {
+  return (usage.inputTokens || 0) + (usage.cachedInputTokens || 0)
+    + (usage.cacheWriteTokens || 0) + (usage.outputTokens || 0);
 }
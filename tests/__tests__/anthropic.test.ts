@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+const cachedMessage = {
+  model: 'claude-sonnet-4-20250514',
+  content: [{ type: 'text', text: 'Hi' }],
+  usage: {
+    input_tokens: 100,
+    cache_creation_input_tokens: 2000,
+    cache_read_input_tokens: 8000,
+    output_tokens: 500,
+  },
+};
+
+describe('Anthropic instrumentation', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  it('prices cache reads and writes separately', async () => {
+    const client = wrapper.wrapAnthropic({
+      messages: { create: async (_params: any) => cachedMessage },
+    });
+
+    await client.messages.create({ model: 'claude-sonnet-4', max_tokens: 1024, messages: [] });
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(10100);
+    expect(attrs['gen_ai.usage.cached_tokens']).toBe(8000);
+    expect(attrs['gen_ai.usage.cache_creation_tokens']).toBe(2000);
+    // 100 × $3 + 8000 × $0.30 + 2000 × $3.75 + 500 × $15 per 1M
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.0177, 8);
+  });
+
+  it('follows MessageStream events from messages.stream()', async () => {
+    const stream = new EventEmitter();
+    const client = wrapper.wrapAnthropic({
+      messages: { stream: (_params: any) => stream },
+    });
+
+    const returned = client.messages.stream({ model: 'claude-sonnet-4', max_tokens: 1024, messages: [] });
+    expect(returned).toBe(stream);
+
+    stream.emit('streamEvent', { type: 'message_start', message: { model: cachedMessage.model, usage: { ...cachedMessage.usage, output_tokens: 1 } } });
+    stream.emit('streamEvent', { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } });
+    stream.emit('streamEvent', { type: 'message_delta', usage: { output_tokens: 500 } });
+    stream.emit('end');
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('anthropic.messages.stream');
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(500);
+    expect(attrs['gen_ai.usage.cached_tokens']).toBe(8000);
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.0177, 8);
+    expect(attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+  });
+
+  it('records MessageStream errors once', async () => {
+    const stream = new EventEmitter();
+    const client = wrapper.wrapAnthropic({
+      messages: { stream: (_params: any) => stream },
+    });
+
+    client.messages.stream({ model: 'claude-sonnet-4', messages: [] });
+    stream.emit('error', new Error('overloaded'));
+    stream.emit('end');
+
+    const spans = await finishedSpans(wrapper, exporter);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status).toEqual({ code: 2, message: 'overloaded' });
+  });
+
+  it('records countTokens without usage or cost', async () => {
+    const client = wrapper.wrapAnthropic({
+      messages: { countTokens: async (_params: any) => ({ input_tokens: 42 }) },
+    });
+
+    expect(await client.messages.countTokens({ model: 'claude-sonnet-4', messages: [] })).toEqual({ input_tokens: 42 });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('anthropic.messages.countTokens');
+    expect(attrs['agentbill.counted_input_tokens']).toBe(42);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBeUndefined();
+    expect(attrs['gen_ai.usage.cost_usd']).toBeUndefined();
+  });
+
+  it('applies batch pricing when batch results are read', async () => {
+    const client = wrapper.wrapAnthropic({
+      messages: {
+        batches: {
+          create: async (params: any) => ({ id: 'msgbatch_1', processing_status: 'in_progress', requests: params.requests }),
+          results: async (_batchId: string) => chunks([
+            { custom_id: 'a', result: { type: 'succeeded', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 1000, output_tokens: 1000 } } } },
+            { custom_id: 'b', result: { type: 'succeeded', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 1000, output_tokens: 1000 } } } },
+            { custom_id: 'c', result: { type: 'errored', error: { type: 'invalid_request' } } },
+          ]),
+        },
+      },
+    });
+
+    await client.messages.batches.create({ requests: [{}, {}, {}] });
+    const results: any = await client.messages.batches.results('msgbatch_1');
+    for await (const _line of results) {
+      // drain
+    }
+
+    const [created, read] = (await finishedSpans(wrapper, exporter)).map(attributes);
+    expect(created['agentbill.batch.id']).toBe('msgbatch_1');
+    expect(created['agentbill.batch.request_count']).toBe(3);
+    expect(read['agentbill.batch.succeeded']).toBe(2);
+    expect(read['agentbill.batch.errored']).toBe(1);
+    expect(read['gen_ai.usage.total_tokens']).toBe(4000);
+    // 2000 input at $1.50 and 2000 output at $7.50 per 1M
+    expect(read['gen_ai.usage.cost_usd']).toBeCloseTo(0.018, 8);
+  });
+
+  it('instruments the beta.messages namespace', async () => {
+    const client = wrapper.wrapAnthropic({
+      beta: { messages: { create: async (_params: any) => cachedMessage } },
+    });
+
+    await client.beta.messages.create({ model: 'claude-sonnet-4', messages: [], betas: ['x'] });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    expect(span.name).toBe('anthropic.beta.messages.create');
+    expect(attributes(span)['gen_ai.usage.total_tokens']).toBe(10600);
+  });
+});
@@ -0,0 +1,78 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { withCallContext } from '../../src/context';
+import { attributes } from '../helpers';
+
+describe('Per-request attribution', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+  let client: any;
+  let sentParams: any[];
+
+  beforeEach(() => {
+    sentParams = [];
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', customerId: 'default-customer', exporter });
+    client = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (params: any) => {
+            sentParams.push(JSON.parse(JSON.stringify(params)));
+            return {};
+          },
+        },
+      },
+    });
+  });
+
+  it('falls back to the configured customer', async () => {
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    expect(attributes(exporter.getFinishedSpans()[0])['customer.id']).toBe('default-customer');
+  });
+
+  it('scopes attribution with withContext, isolating concurrent requests', async () => {
+    await Promise.all(['tenant-a', 'tenant-b'].map(customerId =>
+      wrapper.withContext({ customerId, userId: `${customerId}-user`, tags: ['chat'] }, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        await wrapper.withContext({ sessionId: 's1', tags: ['beta'], metadata: { plan: 'pro' } }, () =>
+          client.chat.completions.create({ model: 'gpt-4o' })
+        );
+      })
+    ));
+    await wrapper.flush();
+
+    const spans = exporter.getFinishedSpans().map(attributes);
+    expect(spans.map(span => span['customer.id']).sort()).toEqual(['tenant-a', 'tenant-b']);
+    for (const span of spans) {
+      expect(span['user.id']).toBe(`${span['customer.id']}-user`);
+      expect(span['session.id']).toBe('s1');
+      expect(span['agentbill.tags']).toEqual(['chat', 'beta']);
+      expect(span['agentbill.metadata.plan']).toBe('pro');
+    }
+  });
+
+  it('inherits attribution inside trace() steps', async () => {
+    await wrapper.withContext({ customerId: 'tenant-c' }, () =>
+      wrapper.trace('step', () => client.chat.completions.create({ model: 'gpt-4o' }))
+    );
+    await wrapper.flush();
+
+    const spans = exporter.getFinishedSpans().map(attributes);
+    expect(spans.every(span => span['customer.id'] === 'tenant-c')).toBe(true);
+  });
+
+  it('accepts per-call attribution without sending it to the provider', async () => {
+    await client.chat.completions.create(withCallContext(
+      { model: 'gpt-4o' },
+      { customerId: 'tenant-d', metadata: { feature: 'summarize' } }
+    ));
+    await wrapper.flush();
+
+    const span = attributes(exporter.getFinishedSpans()[0]);
+    expect(span['customer.id']).toBe('tenant-d');
+    expect(span['agentbill.metadata.feature']).toBe('summarize');
+    expect(sentParams[0]).toEqual({ model: 'gpt-4o' });
+  });
+});
@@ -0,0 +1,179 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+// Stand-ins for the @aws-sdk/client-bedrock-runtime command classes
+class InvokeModelCommand { constructor(public input: any) {} }
+class InvokeModelWithResponseStreamCommand { constructor(public input: any) {} }
+class ConverseCommand { constructor(public input: any) {} }
+class ConverseStreamCommand { constructor(public input: any) {} }
+class ListAsyncInvokesCommand { constructor(public input: any) {} }
+
+function chunk(json: any) {
+  return { chunk: { bytes: new TextEncoder().encode(JSON.stringify(json)) } };
+}
+
+describe('Bedrock instrumentation', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  it('leaves a one-shot InvokeModel body readable', async () => {
+    const text = JSON.stringify({ inputTextTokenCount: 12, results: [{ tokenCount: 30, outputText: 'Hi' }] });
+    let read = false;
+    const client = wrapper.wrapBedrock({
+      send: async (_command: any) => ({
+        body: {
+          transformToString: async () => {
+            if (read) throw new Error('body already consumed');
+            read = true;
+            return text;
+          },
+        },
+      }),
+    });
+
+    const response: any = await client.send(new InvokeModelCommand({
+      modelId: 'amazon.titan-text-express-v1',
+      body: JSON.stringify({ inputText: 'Hello' }),
+    }));
+    expect(await response.body.transformToString()).toBe(text);
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('bedrock.invokeModel');
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(12);
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(30);
+  });
+
+  it.each([
+    ['meta.llama3-1-70b-instruct-v1:0', { generation: 'Hi', prompt_token_count: 10, generation_token_count: 5 }],
+    ['us.amazon.nova-lite-v1:0', { output: {}, usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } }],
+    ['cohere.command-r-v1:0', { text: 'Hi', meta: { billed_units: { input_tokens: 10, output_tokens: 5 } } }],
+    ['mistral.mistral-large-2407-v1:0', { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }],
+    ['anthropic.claude-3-5-haiku-20241022-v1:0', { content: [], usage: { input_tokens: 10, output_tokens: 5 } }],
+  ])('parses %s usage', async (modelId, body) => {
+    const client = wrapper.wrapBedrock({
+      invokeModel: async (_input: any) => ({ body: new TextEncoder().encode(JSON.stringify(body)) }),
+    });
+
+    await client.invokeModel({ modelId, body: '{}' });
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(10);
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(5);
+    expect(attrs['gen_ai.usage.cost_usd']).toBeGreaterThan(0);
+  });
+
+  it('tracks Converse usage including cache tokens', async () => {
+    const client = wrapper.wrapBedrock({
+      send: async (_command: any) => ({
+        output: { message: { role: 'assistant', content: [{ text: 'Hi' }] } },
+        usage: { inputTokens: 100, outputTokens: 50, totalTokens: 1150, cacheReadInputTokens: 1000 },
+      }),
+    });
+
+    await client.send(new ConverseCommand({
+      modelId: 'anthropic.claude-3-5-haiku-20241022-v1:0',
+      system: [{ text: 'Be brief.' }],
+      messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+      inferenceConfig: { maxTokens: 256 },
+    }));
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('bedrock.converse');
+    expect(attrs['gen_ai.request.max_tokens']).toBe(256);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(1100);
+    expect(attrs['gen_ai.usage.cached_tokens']).toBe(1000);
+    expect(attrs['gen_ai.prompt.hash']).toBeDefined();
+    // 100 × $0.80 + 1000 × $0.08 + 50 × $4 per 1M
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.00036, 10);
+  });
+
+  it('reads ConverseStream usage from the metadata event', async () => {
+    const client = wrapper.wrapBedrock({
+      send: async (_command: any) => ({
+        stream: chunks([
+          { messageStart: { role: 'assistant' } },
+          { contentBlockDelta: { delta: { text: 'Hi' } } },
+          { messageStop: { stopReason: 'end_turn' } },
+          { metadata: { usage: { inputTokens: 20, outputTokens: 4, totalTokens: 24 } } },
+        ]),
+      }),
+    });
+
+    const response: any = await client.send(new ConverseStreamCommand({ modelId: 'amazon.nova-pro-v1:0', messages: [] }));
+    for await (const _event of response.stream) {
+      // drain
+    }
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('bedrock.converseStream');
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(24);
+    expect(attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+  });
+
+  it('reads InvokeModelWithResponseStream usage per family', async () => {
+    const client = wrapper.wrapBedrock({
+      send: async (command: any) => ({
+        body: chunks(command.input.modelId.startsWith('anthropic')
+          ? [
+            chunk({ type: 'message_start', message: { usage: { input_tokens: 30, output_tokens: 1 } } }),
+            chunk({ type: 'content_block_delta', delta: { text: 'Hi' } }),
+            chunk({ type: 'message_delta', usage: { output_tokens: 8 } }),
+            chunk({ type: 'message_stop', 'amazon-bedrock-invocationMetrics': { inputTokenCount: 30, outputTokenCount: 8 } }),
+          ]
+          : [
+            chunk({ generation: 'Hi' }),
+            chunk({ generation: '', 'amazon-bedrock-invocationMetrics': { inputTokenCount: 15, outputTokenCount: 3 } }),
+          ]),
+      }),
+    });
+
+    for (const modelId of ['anthropic.claude-3-haiku-20240307-v1:0', 'meta.llama3-8b-instruct-v1:0']) {
+      const response: any = await client.send(new InvokeModelWithResponseStreamCommand({ modelId, body: '{}' }));
+      for await (const _event of response.body) {
+        // drain
+      }
+    }
+
+    const [anthropic, llama] = await finishedSpans(wrapper, exporter);
+    expect(anthropic.name).toBe('bedrock.invokeModelWithResponseStream');
+    expect(attributes(anthropic)['gen_ai.usage.total_tokens']).toBe(38);
+    expect(attributes(llama)['gen_ai.usage.total_tokens']).toBe(18);
+  });
+
+  it('recognizes commands whose class names were minified', async () => {
+    class a { constructor(public input: any) {} }
+    class b { constructor(public input: any) {} }
+    const client = wrapper.wrapBedrock({
+      send: async (command: any) => command instanceof a
+        ? { usage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 } }
+        : { stream: chunks([{ metadata: { usage: { inputTokens: 20, outputTokens: 4, totalTokens: 24 } } }]) },
+    });
+
+    await client.send(new a({ modelId: 'amazon.nova-pro-v1:0', messages: [] }));
+    const response: any = await client.send(new b({ modelId: 'amazon.nova-pro-v1:0', messages: [] }));
+    for await (const _event of response.stream) {
+      // drain
+    }
+    await client.send(new a({}));
+
+    const spans = await finishedSpans(wrapper, exporter);
+    expect(spans.map(span => span.name)).toEqual(['bedrock.converse', 'bedrock.converse']);
+    expect(spans.map(span => attributes(span)['gen_ai.usage.total_tokens'])).toEqual([15, 24]);
+  });
+
+  it('passes other commands through untraced', async () => {
+    const client = wrapper.wrapBedrock({ send: async (_command: any) => ({ asyncInvokeSummaries: [] }) });
+
+    expect(await client.send(new ListAsyncInvokesCommand({}))).toEqual({ asyncInvokeSummaries: [] });
+    expect(await finishedSpans(wrapper, exporter)).toHaveLength(0);
+  });
+});
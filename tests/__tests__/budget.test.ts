@@ -0,0 +1,160 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { BudgetManager } from '../../src/budget';
+import { BudgetExceededError } from '../../src/errors';
+import { InMemoryExporter } from '../../src/exporters';
+import { BudgetEvent } from '../../src/types';
+import { attributes } from '../helpers';
+
+describe('BudgetManager', () => {
+  it('measures limits over a rolling window', () => {
+    let now = 0;
+    const budgets = new BudgetManager(
+      [{ scope: 'global', window: 'minute', maxTokens: 100 }],
+      () => undefined,
+      () => now
+    );
+
+    budgets.record(undefined, 'gpt-4o', 0, 100);
+    expect(() => budgets.enforce(undefined, 'gpt-4o')).toThrow(BudgetExceededError);
+
+    now += 61_000;
+    expect(budgets.enforce(undefined, 'gpt-4o').events).toHaveLength(0);
+  });
+
+  it('tracks customer and model rules separately per key', () => {
+    const budgets = new BudgetManager([
+      { scope: 'customer', window: 'day', maxCostUsd: 1 },
+      { scope: 'model', model: 'gpt-4o', window: 'day', maxCostUsd: 2, action: 'warn' },
+    ], () => undefined);
+
+    budgets.record('tenant-a', 'gpt-4o-2024-08-06', 1.5, 0);
+
+    expect(() => budgets.enforce('tenant-a', 'gpt-4o-mini')).toThrow(BudgetExceededError);
+    expect(budgets.enforce('tenant-b', 'gpt-4o-2024-08-06').events).toHaveLength(0);
+
+    budgets.record('tenant-b', 'gpt-4o-2024-08-06', 0.5, 0);
+    const { events } = budgets.enforce('tenant-c', 'gpt-4o-2024-08-06');
+    expect(events).toEqual([expect.objectContaining({ rule: 'model/day', key: 'gpt-4o-2024-08-06', spentUsd: 2 })]);
+  });
+
+  it('rejects rules without a limit', () => {
+    expect(() => new BudgetManager([{ scope: 'global', window: 'hour' }])).toThrow('needs maxCostUsd or maxTokens');
+  });
+});
+
+describe('Budget enforcement', () => {
+  let exporter: InMemoryExporter;
+  let events: BudgetEvent[];
+  let calls: any[];
+
+  function openAIClient(responseModel?: (model: string) => string) {
+    return {
+      chat: {
+        completions: {
+          create: async (params: any) => {
+            calls.push(params);
+            return {
+              model: responseModel ? responseModel(params.model) : params.model,
+              usage: { prompt_tokens: 600_000, completion_tokens: 400_000, total_tokens: 1_000_000 },
+            };
+          },
+        },
+      },
+    };
+  }
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    events = [];
+    calls = [];
+  });
+
+  it('throws BudgetExceededError without calling the provider', async () => {
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter,
+      budgets: [{ scope: 'customer', window: 'day', maxCostUsd: 5 }],
+      onBudgetEvent: event => events.push(event),
+    });
+    const client = wrapper.wrapOpenAI(openAIClient());
+
+    // $1.50 + $4.00 for 1M gpt-4o tokens
+    await wrapper.withContext({ customerId: 'tenant-a' }, () => client.chat.completions.create({ model: 'gpt-4o' }));
+    const blocked = wrapper.withContext({ customerId: 'tenant-a' }, () => client.chat.completions.create({ model: 'gpt-4o' }));
+    await expect(blocked).rejects.toThrow(BudgetExceededError);
+
+    expect(calls).toHaveLength(1);
+    expect(events).toEqual([expect.objectContaining({ action: 'throw', key: 'tenant-a', spentUsd: 5.5 })]);
+
+    await wrapper.flush();
+    const span = attributes(exporter.getFinishedSpans()[1]);
+    expect(span['error']).toBe(true);
+    expect(span['agentbill.budget.rule']).toBe('customer/day');
+  });
+
+  it('downgrades to the configured model', async () => {
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter,
+      budgets: [{
+        scope: 'model', model: 'gpt-4o', window: 'hour', maxTokens: 1_000_000,
+        action: 'downgrade', downgradeModel: 'gpt-4o-mini',
+      }],
+      onBudgetEvent: event => events.push(event),
+    });
+    const client = wrapper.wrapOpenAI(openAIClient());
+
+    const params = { model: 'gpt-4o', messages: [] };
+    await client.chat.completions.create(params);
+    await client.chat.completions.create(params);
+
+    expect(calls.map(call => call.model)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    expect(params.model).toBe('gpt-4o');
+    expect(events[0]).toMatchObject({ action: 'downgrade', downgradedTo: 'gpt-4o-mini' });
+
+    await wrapper.flush();
+    const span = attributes(exporter.getFinishedSpans()[1]);
+    expect(span['gen_ai.request.model']).toBe('gpt-4o-mini');
+    expect(span['agentbill.budget.original_model']).toBe('gpt-4o');
+  });
+
+  it('counts spend under the requested model when the response names a snapshot', async () => {
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter,
+      budgets: [
+        { scope: 'model', model: 'gpt-4o', window: 'day', maxCostUsd: 0.0001 },
+        { scope: 'model', window: 'day', maxTokens: 1_000_000, action: 'warn' },
+      ],
+      onBudgetEvent: event => events.push(event),
+    });
+    const client = wrapper.wrapOpenAI(openAIClient(model => `${model}-2024-08-06`));
+
+    await client.chat.completions.create({ model: 'gpt-4.1' });
+    await client.chat.completions.create({ model: 'gpt-4.1' });
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    await expect(client.chat.completions.create({ model: 'gpt-4o' })).rejects.toThrow(BudgetExceededError);
+
+    expect(calls.map(call => call.model)).toEqual(['gpt-4.1', 'gpt-4.1', 'gpt-4o']);
+    expect(events).toEqual([
+      expect.objectContaining({ action: 'warn', key: 'gpt-4.1', tokens: 1_000_000 }),
+      expect.objectContaining({ action: 'throw', key: 'gpt-4o', spentUsd: 5.5 }),
+    ]);
+  });
+
+  it('only reports warn rules', async () => {
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter,
+      budgets: [{ name: 'monthly', scope: 'global', window: 'month', maxCostUsd: 1, action: 'warn' }],
+      onBudgetEvent: event => events.push(event),
+    });
+    const client = wrapper.wrapOpenAI(openAIClient());
+
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    await client.chat.completions.create({ model: 'gpt-4o' });
+
+    expect(calls).toHaveLength(2);
+    expect(events).toEqual([expect.objectContaining({ rule: 'monthly', action: 'warn' })]);
+  });
+});
@@ -0,0 +1,69 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+describe('Cohere instrumentation', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  async function decodedSpans() {
+    return (await finishedSpans(wrapper, exporter)).map(span => ({ name: span.name, attrs: attributes(span) }));
+  }
+
+  it('maps billed units from v2 chat and v1 embed responses', async () => {
+    const client = wrapper.wrapCohere({
+      chat: async (_params: any) => ({
+        message: { content: [{ type: 'text', text: 'Hi' }] },
+        usage: { billedUnits: { inputTokens: 1000, outputTokens: 100 }, tokens: { inputTokens: 1200, outputTokens: 100 } },
+      }),
+      embed: async (_params: any) => ({ embeddings: [[0.1]], meta: { billed_units: { input_tokens: 50 } } }),
+    });
+
+    await client.chat({ model: 'command-r-plus-08-2024', messages: [{ role: 'user', content: 'Hello' }] });
+    await client.embed({ model: 'embed-english-v3.0', texts: ['Hello'], inputType: 'search_document' });
+
+    const [chat, embed] = await decodedSpans();
+    expect(chat.name).toBe('cohere.chat');
+    expect(chat.attrs['gen_ai.usage.prompt_tokens']).toBe(1000);
+    expect(chat.attrs['gen_ai.usage.completion_tokens']).toBe(100);
+    expect(chat.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.0035, 10);
+    expect(embed.name).toBe('cohere.embed');
+    expect(embed.attrs['gen_ai.usage.prompt_tokens']).toBe(50);
+  });
+
+  it('prices rerank by search units', async () => {
+    const client = wrapper.wrapCohere({
+      rerank: async (_params: any) => ({ results: [], meta: { billedUnits: { searchUnits: 1 } } }),
+    });
+
+    await client.rerank({ model: 'rerank-v3.5', query: 'q', documents: ['a', 'b'] });
+
+    const [rerank] = await decodedSpans();
+    expect(rerank.attrs['gen_ai.usage.search_units']).toBe(1);
+    expect(rerank.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.002, 10);
+  });
+
+  it('reads usage from the end of a v2 chatStream', async () => {
+    const client = wrapper.wrapCohere({
+      chatStream: async (_params: any) => chunks([
+        { type: 'message-start' },
+        { type: 'content-delta', delta: { message: { content: { text: 'Hi' } } } },
+        { type: 'message-end', delta: { finishReason: 'COMPLETE', usage: { billedUnits: { inputTokens: 20, outputTokens: 3 } } } },
+      ]),
+    });
+
+    const stream: any = await client.chatStream({ model: 'command-r', messages: [] });
+    for await (const _event of stream) {
+      // drain
+    }
+
+    const [span] = await decodedSpans();
+    expect(span.attrs['gen_ai.usage.total_tokens']).toBe(23);
+    expect(span.attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+  });
+});
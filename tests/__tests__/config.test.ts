@@ -0,0 +1,164 @@
+import { AgentBill, AgentBillConfigError, ConsoleExporter, InMemoryExporter, OtlpHttpExporter } from '../../src/index';
+import { loadConfig, validateConfig } from '../../src/config';
+import { DevCollector, startDevCollector } from '../../src/dev-collector';
+
+describe('Configuration', () => {
+  describe('loadConfig()', () => {
+    it('reads missing options from AGENTBILL_* environment variables', () => {
+      const config = loadConfig({ customerId: 'from-code' }, {
+        AGENTBILL_API_KEY: 'env-key',
+        AGENTBILL_BASE_URL: 'https://collector.example.com/',
+        AGENTBILL_CUSTOMER_ID: 'from-env',
+        AGENTBILL_DEBUG: 'true',
+        AGENTBILL_DISABLED: '0',
+      });
+
+      expect(config).toMatchObject({
+        apiKey: 'env-key',
+        baseUrl: 'https://collector.example.com',
+        customerId: 'from-code',
+        debug: true,
+        disabled: false,
+      });
+    });
+
+    it('rejects flags that are not booleans', () => {
+      expect(() => loadConfig({ apiKey: 'key' }, { AGENTBILL_DEBUG: 'verbose' }))
+        .toThrow('AGENTBILL_DEBUG must be true or false, got "verbose"');
+    });
+  });
+
+  describe('validateConfig()', () => {
+    it('lists every invalid option', () => {
+      let error: AgentBillConfigError | undefined;
+      try {
+        validateConfig({
+          apiKey: ' ',
+          baseUrl: 'collector.example.com',
+          maxBatchSize: 0,
+          protocol: 'grpc' as any,
+          sampling: { ratio: 2 },
+        });
+      } catch (thrown) {
+        error = thrown as AgentBillConfigError;
+      }
+
+      expect(error).toBeInstanceOf(AgentBillConfigError);
+      expect(error?.name).toBe('AgentBillConfigError');
+      expect(error?.issues).toEqual([
+        'apiKey is missing; pass it to AgentBill.init() or set AGENTBILL_API_KEY',
+        'baseUrl must be an http or https URL, got "collector.example.com"',
+        'maxBatchSize must be an integer of at least 1, got 0',
+        "protocol must be one of 'http/json', 'http/protobuf', got \"grpc\"",
+        'sampling.ratio must be a number from 0 to 1, got 2',
+      ]);
+      expect(error?.message).toMatch(/^\[AgentBill\] Invalid config: apiKey is missing/);
+    });
+
+    it('does not require an API key when disabled', () => {
+      expect(() => validateConfig({ apiKey: '', disabled: true })).not.toThrow();
+    });
+  });
+
+  describe('AgentBill.init()', () => {
+    const saved = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...saved };
+    });
+
+    it('falls back to the environment and validates the result', () => {
+      delete process.env.AGENTBILL_API_KEY;
+      expect(() => AgentBill.init()).toThrow(AgentBillConfigError);
+
+      process.env.AGENTBILL_API_KEY = 'env-key';
+      expect(AgentBill.init({ flushOnExit: false })).toBeInstanceOf(AgentBill);
+    });
+  });
+
+  describe('disabled', () => {
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 200 } as any);
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it('returns clients untouched and sends nothing', async () => {
+      const agentBill = AgentBill.init({ disabled: true });
+      const client = { chat: { completions: { create: async () => ({ choices: [] }) } } };
+
+      expect(agentBill.wrapOpenAI(client)).toBe(client);
+      const lookup = agentBill.wrapTool('lookup', async (id: number) => `item ${id}`);
+      expect(await agentBill.trace('step', () => lookup(7))).toBe('item 7');
+      expect(await agentBill.trackSignal({ event_name: 'purchase', revenue: 10 })).toEqual(expect.any(String));
+      await agentBill.flush();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(await agentBill.checkConnection()).toEqual({ ok: true, latencyMs: 0, disabled: true });
+    });
+  });
+
+  describe('checkConnection()', () => {
+    let collector: DevCollector;
+
+    beforeEach(async () => {
+      collector = await startDevCollector({ port: 0, apiKey: 'dev-key', write: () => {} });
+    });
+
+    afterEach(async () => {
+      await collector.close();
+    });
+
+    it('reports whether the collector accepts the API key', async () => {
+      const good = await AgentBill.init({ apiKey: 'dev-key', baseUrl: collector.url, flushOnExit: false }).checkConnection();
+      expect(good).toMatchObject({ ok: true, status: 200, url: `${collector.url}/functions/v1/otel-collector` });
+      expect(good.latencyMs).toEqual(expect.any(Number));
+
+      const bad = await AgentBill.init({ apiKey: 'wrong', baseUrl: collector.url, flushOnExit: false }).checkConnection();
+      expect(bad).toMatchObject({ ok: false, status: 401 });
+      expect(bad.error).toContain('Invalid API key');
+    });
+
+    it('reports unreachable collectors without throwing', async () => {
+      const { url } = collector;
+      await collector.close();
+      collector = await startDevCollector({ port: 0, write: () => {} });
+
+      const result = await AgentBill.init({ apiKey: 'dev-key', baseUrl: url, flushOnExit: false }).checkConnection(1000);
+      expect(result.ok).toBe(false);
+      expect(result.status).toBeUndefined();
+      expect(result.error).toEqual(expect.any(String));
+    });
+
+    it('probes the configured exporters instead of the collector', async () => {
+      const config = { apiKey: 'dev-key', baseUrl: 'http://127.0.0.1:9', flushOnExit: false };
+      const otlp = (apiKey: string) => new OtlpHttpExporter({
+        url: `${collector.url}/v1/traces`,
+        headers: { 'X-API-Key': apiKey },
+        config,
+      });
+
+      const good = await AgentBill.init({ ...config, exporter: [new InMemoryExporter(), otlp('dev-key')] }).checkConnection();
+      expect(good).toMatchObject({ ok: true, status: 200, exporter: 'otlp', url: `${collector.url}/v1/traces` });
+      expect(good.exporters).toHaveLength(1);
+
+      const bad = await AgentBill.init({ ...config, exporter: [otlp('dev-key'), otlp('wrong')] }).checkConnection();
+      expect(bad).toMatchObject({ ok: false, status: 401, exporter: 'otlp' });
+      expect(bad.exporters!.map(result => result.ok)).toEqual([true, false]);
+    });
+
+    it('skips exporters that have no endpoint to probe', async () => {
+      const agentBill = AgentBill.init({
+        apiKey: 'dev-key',
+        flushOnExit: false,
+        exporter: [new InMemoryExporter(), new ConsoleExporter({ write: () => {} })],
+      });
+
+      expect(await agentBill.checkConnection()).toEqual({ ok: true, latencyMs: 0, skipped: true, exporters: [] });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+
+describe('Nested traces', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+  let client: any;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+    client = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return {};
+          },
+        },
+      },
+      embeddings: { create: async (_params: any) => ({}) },
+    });
+  });
+
+  it('makes calls inside trace() children of the step', async () => {
+    const result = await wrapper.trace('research', async context => {
+      await client.chat.completions.create({ model: 'gpt-4o' });
+      await Promise.all([
+        client.embeddings.create({ model: 'text-embedding-3-small', input: 'a' }),
+        client.embeddings.create({ model: 'text-embedding-3-small', input: 'b' }),
+      ]);
+      return context.traceId;
+    });
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    const spans = exporter.getFinishedSpans();
+    const step = spans.find(span => span.name === 'research')!;
+    const children = spans.filter(span => span.parentSpanId === step.spanId);
+
+    expect(result).toBe(step.traceId);
+    expect(step.kind).toBe('internal');
+    expect(step.parentSpanId).toBeUndefined();
+    expect(children).toHaveLength(3);
+    expect(children.every(span => span.traceId === step.traceId)).toBe(true);
+
+    const outside = spans.filter(span => span.traceId !== step.traceId);
+    expect(outside).toHaveLength(1);
+  });
+
+  it('shares one trace across the steps of an agent run', async () => {
+    const run = wrapper.startAgentRun('support-agent', { 'agent.version': 3 });
+    await run.step('plan', () => client.chat.completions.create({ model: 'gpt-4o' }));
+    await run.step('answer', async () => {
+      await wrapper.trace('lookup', () => client.embeddings.create({ model: 'text-embedding-3-small', input: 'q' }));
+    });
+    run.end();
+    await wrapper.flush();
+
+    const spans = exporter.getFinishedSpans();
+    const byName = Object.fromEntries(spans.map(span => [span.name, span]));
+
+    expect(spans).toHaveLength(6);
+    expect(spans.every(span => span.traceId === run.traceId)).toBe(true);
+    expect(byName['plan'].parentSpanId).toBe(run.spanId);
+    expect(byName['lookup'].parentSpanId).toBe(byName['answer'].spanId);
+    expect(byName['openai.embeddings.create'].parentSpanId).toBe(byName['lookup'].spanId);
+    expect(byName['support-agent'].attributes).toContainEqual({ key: 'agent.version', value: { intValue: '3' } });
+  });
+
+  it('records errors thrown inside a step', async () => {
+    await expect(wrapper.trace('failing', async () => {
+      throw new Error('tool crashed');
+    })).rejects.toThrow('tool crashed');
+    await wrapper.flush();
+
+    expect(exporter.getFinishedSpans()[0].status).toEqual({ code: 2, message: 'tool crashed' });
+  });
+});
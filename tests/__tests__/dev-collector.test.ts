@@ -0,0 +1,147 @@
+import { gzipSync } from 'zlib';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { DevCollector, startDevCollector, validateExportPayload } from '../../src/dev-collector';
+import { buildExportPayload } from '../../src/otlp';
+import { encodeTraceRequest } from '../../src/protobuf';
+import { AgentBillConfig } from '../../src/types';
+
+const config: AgentBillConfig = { apiKey: 'dev-key' };
+
+function sampleSpan() {
+  return {
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    spanId: 'b7ad6b7169203331',
+    name: 'openai.chat.completions.create',
+    kind: 'client' as const,
+    startTimeUnixNano: '1700000000000000000',
+    endTimeUnixNano: '1700000000500000000',
+    attributes: [
+      { key: 'gen_ai.system', value: { stringValue: 'openai' } },
+      { key: 'gen_ai.request.model', value: { stringValue: 'gpt-4o' } },
+      { key: 'gen_ai.usage.prompt_tokens', value: { intValue: '1000' } },
+      { key: 'gen_ai.usage.completion_tokens', value: { intValue: '200' } },
+      { key: 'gen_ai.usage.cost_usd', value: { doubleValue: 0.0045 } },
+    ],
+    events: [],
+    links: [],
+    status: { code: 0 },
+  };
+}
+
+describe('Dev collector', () => {
+  let collector: DevCollector;
+  let output: string;
+
+  beforeEach(async () => {
+    output = '';
+    collector = await startDevCollector({ port: 0, apiKey: 'dev-key', write: text => { output += text; } });
+  });
+
+  afterEach(async () => {
+    await collector.close();
+  });
+
+  function post(path: string, body: string | Buffer, headers: Record<string, string> = {}) {
+    return fetch(`${collector.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'dev-key', ...headers },
+      body,
+    });
+  }
+
+  it('receives spans and signals from the SDK and prints a table', async () => {
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'dev-key',
+      baseUrl: collector.url,
+      customerId: 'acme',
+      compression: 'gzip',
+      flushOnExit: false,
+    });
+    const openai = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => ({
+            model: 'gpt-4o',
+            choices: [{ finish_reason: 'stop', message: { content: 'Hi' } }],
+            usage: { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 },
+          }),
+        },
+      },
+    });
+    await openai.chat.completions.create({ model: 'gpt-4o', messages: [] });
+    wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 2.5, idempotencyKey: 'ticket-1' });
+    wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 2.5, idempotencyKey: 'ticket-1' });
+    await wrapper.flush();
+
+    expect(collector.rejected).toEqual([]);
+    expect(collector.spans).toHaveLength(1);
+    expect(collector.spans[0].name).toBe('openai.chat.completions.create');
+    expect(collector.signals.map(signal => signal.idempotency_key)).toEqual(['ticket-1']);
+    expect(output).toMatch(/^TIME\s+SPAN\s+MODEL\s+CUSTOMER\s+IN\s+OUT\s+COST\s+MS\s+STATUS$/m);
+    expect(output).toMatch(/openai\.chat\.completions\.create\s+gpt-4o\s+acme\s+1,000\s+200\s+\$\d/);
+    expect(output).toContain('duplicate idempotency key ticket-1');
+    expect(output).toContain('calls 1 · errors 0 · tokens 1,200');
+    expect(output).toContain('revenue $2.5000');
+  });
+
+  it('accepts gzipped OTLP protobuf', async () => {
+    const body = gzipSync(encodeTraceRequest(buildExportPayload([sampleSpan()], config)));
+    const response = await post('/v1/traces', body, { 'Content-Type': 'application/x-protobuf', 'Content-Encoding': 'gzip' });
+
+    expect(response.status).toBe(200);
+    expect(collector.spans).toHaveLength(1);
+    expect(output).toContain('calls 1 · errors 0 · tokens 1,200 · cost $0.004500');
+  });
+
+  it('rejects payloads that do not match the OTLP schema', async () => {
+    const payload: any = buildExportPayload([sampleSpan()], config);
+    payload.resourceSpans[0].scopeSpans[0].spans[0].traceId = 'abc';
+    payload.resourceSpans[0].scopeSpans[0].spans[0].attributes.push({ key: 'tokens', value: { intValue: 1.5 } });
+
+    const response = await post('/functions/v1/otel-collector', JSON.stringify(payload));
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as any).errors).toEqual([
+      'resourceSpans[0].scopeSpans[0].spans[0].traceId: expected 32 hex characters, not all zero',
+      'resourceSpans[0].scopeSpans[0].spans[0].attributes[5].value.intValue: expected an integer, as a decimal string',
+    ]);
+    expect(collector.spans).toHaveLength(0);
+    expect(output).toContain('rejected /functions/v1/otel-collector');
+  });
+
+  it('takes one signal per record-signals request', async () => {
+    const signal = { event_name: 'purchase', revenue: 20, timestamp: Date.now(), idempotency_key: 'order-42' };
+    const headers = { Authorization: 'Bearer dev-key' };
+
+    expect((await post('/functions/v1/record-signals', JSON.stringify(signal), headers)).status).toBe(200);
+    const batch = await post('/functions/v1/record-signals', JSON.stringify({ signals: [signal] }), headers);
+
+    expect(batch.status).toBe(400);
+    expect(((await batch.json()) as any).errors).toContain('event_name: expected a non-empty string');
+    expect(collector.signals.map(received => received.idempotency_key)).toEqual(['order-42']);
+  });
+
+  it('rejects requests without the expected API key', async () => {
+    const response = await post('/functions/v1/otel-collector', JSON.stringify(buildExportPayload([sampleSpan()], config)), { 'X-API-Key': 'wrong' });
+
+    expect(response.status).toBe(401);
+    expect(collector.spans).toHaveLength(0);
+  });
+
+  describe('validateExportPayload()', () => {
+    it('accepts what the SDK produces', () => {
+      expect(validateExportPayload(buildExportPayload([sampleSpan()], config))).toEqual([]);
+    });
+
+    it('reports malformed values with their paths', () => {
+      const payload: any = buildExportPayload([{ ...sampleSpan(), endTimeUnixNano: '1600000000000000000' }], config);
+      payload.resourceSpans[0].resource.attributes[0].value = { stringValue: 'a', intValue: '1' };
+
+      expect(validateExportPayload(payload)).toEqual([
+        'resourceSpans[0].resource.attributes[0].value: expected exactly one value field, got 2',
+        'resourceSpans[0].scopeSpans[0].spans[0].endTimeUnixNano: ends before it starts',
+      ]);
+      expect(validateExportPayload({})).toEqual(['resourceSpans: expected an array']);
+    });
+  });
+});
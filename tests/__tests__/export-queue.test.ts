@@ -0,0 +1,311 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { ExportQueue, parseRetryAfter } from '../../src/export-queue';
+import { Exporter, ExportResult, SpanData } from '../../src/types';
+import { AgentBillTracer } from '../../src/tracer';
+import { InMemoryExporter } from '../../src/exporters';
+
+const fastRetry = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 5 };
+
+function createQueue(send: (items: number[]) => Promise<ExportResult>, options: Record<string, any> = {}) {
+  return new ExportQueue<number>({ name: 'items', send, retry: fastRetry, log: () => {}, ...options });
+}
+
+describe('ExportQueue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('retries failed batches until they are delivered', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce({ success: false, retryable: true, error: '503' })
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValue({ success: true });
+    const queue = createQueue(send);
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send).toHaveBeenLastCalledWith([1, 2], expect.any(AbortSignal));
+    expect(queue.getStats()).toMatchObject({ exported: 2, retries: 2, queued: 0 });
+  });
+
+  it('does not hold the process open while backing off in the background', async () => {
+    const timers: NodeJS.Timeout[] = [];
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      const timer = setImmediate(callback) as unknown as NodeJS.Timeout;
+      timer.unref = jest.fn(() => timer);
+      timers.push(timer);
+      return timer;
+    }) as any);
+    const send = jest.fn()
+      .mockResolvedValueOnce({ success: false, retryable: true, error: '503' })
+      .mockResolvedValue({ success: true });
+    const queue = createQueue(send);
+
+    queue.enqueue(1);
+    await queue.drain();
+    setTimeoutSpy.mockRestore();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(timers.length).toBeGreaterThan(0);
+    timers.forEach(timer => expect(timer.unref).toHaveBeenCalled());
+  });
+
+  it('retries only the part of a batch that was not delivered', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce({ success: false, retryable: true, error: '503', delivered: 2 })
+      .mockResolvedValue({ success: true });
+    const queue = createQueue(send);
+
+    [1, 2, 3].forEach(item => queue.enqueue(item));
+    await queue.flush();
+
+    expect(send.mock.calls.map(([items]) => items)).toEqual([[1, 2, 3], [3]]);
+    expect(queue.getStats()).toMatchObject({ exported: 3, retries: 1, queued: 0 });
+  });
+
+  it('does not retry rejected payloads', async () => {
+    const send = jest.fn().mockResolvedValue({ success: false, retryable: false, error: '400' });
+    const queue = createQueue(send);
+
+    queue.enqueue(1);
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.getStats()).toMatchObject({ failed: 1, queued: 0 });
+  });
+
+  it('keeps undelivered batches in memory when no spill directory is set', async () => {
+    const send = jest.fn().mockResolvedValue({ success: false, retryable: true });
+    const queue = createQueue(send);
+
+    queue.enqueue(1);
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(queue.getStats()).toMatchObject({ exported: 0, queued: 1 });
+
+    send.mockResolvedValue({ success: true });
+    await queue.flush();
+    expect(queue.getStats()).toMatchObject({ exported: 1, queued: 0 });
+  });
+
+  it('splits exports into batches of maxBatchSize', async () => {
+    const send = jest.fn().mockResolvedValue({ success: true });
+    const queue = createQueue(send, { maxBatchSize: 2 });
+
+    [1, 2, 3, 4, 5].forEach(item => queue.enqueue(item));
+    await queue.flush();
+
+    expect(send.mock.calls.map(call => call[0])).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('retries sends that exceed the export timeout', async () => {
+    const send = jest.fn()
+      .mockReturnValueOnce(new Promise(() => {}))
+      .mockResolvedValue({ success: true });
+    const queue = createQueue(send, { exportTimeoutMs: 10 });
+
+    queue.enqueue(1);
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(queue.getStats()).toMatchObject({ exported: 1, retries: 1 });
+  });
+
+  it('applies the drop policy when the queue is full', () => {
+    const oldest = createQueue(jest.fn(), { maxQueueSize: 2 });
+    [1, 2, 3].forEach(item => oldest.enqueue(item));
+    expect(oldest.getStats()).toMatchObject({ queued: 2, dropped: 1 });
+
+    const newest = createQueue(jest.fn(), { maxQueueSize: 2, dropPolicy: 'drop_newest' });
+    [1, 2, 3].forEach(item => newest.enqueue(item));
+    expect(newest.getStats()).toMatchObject({ queued: 2, dropped: 1 });
+  });
+
+  it('spills undelivered batches to disk and replays them on start', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'agentbill-spill-'));
+    try {
+      const failing = createQueue(jest.fn().mockResolvedValue({ success: false, retryable: true }), {
+        spillDirectory: directory,
+      });
+      failing.enqueue(1);
+      failing.enqueue(2);
+      await failing.flush();
+
+      expect(failing.getStats()).toMatchObject({ spilled: 2, queued: 0 });
+      expect(readdirSync(directory)).toHaveLength(1);
+
+      const send = jest.fn().mockResolvedValue({ success: true });
+      const restarted = createQueue(send, { spillDirectory: directory });
+      await restarted.flush();
+
+      expect(send).toHaveBeenCalledWith([1, 2], expect.any(AbortSignal));
+      expect(restarted.getStats()).toMatchObject({ replayed: 2, exported: 2 });
+      expect(readdirSync(directory)).toHaveLength(0);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+  });
+});
+
+describe('AgentBillTracer export', () => {
+  it('honors 429 Retry-After from the collector', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'retry-after': '0' }),
+        text: async () => 'slow down',
+      } as any)
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) } as any);
+    const tracer = new AgentBillTracer({ apiKey: 'test-api-key', retry: fastRetry });
+
+    const { spanId } = tracer.startSpan('test');
+    tracer.endSpan(spanId);
+    await tracer.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(tracer.getExportStats()).toMatchObject({ exported: 1, retries: 1 });
+  });
+
+  it('exports spans when a span end listener throws', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const exporter = new InMemoryExporter();
+    const tracer = new AgentBillTracer({ apiKey: 'test-api-key', exporter, flushOnExit: false });
+    const seen: string[] = [];
+    tracer.onSpanEnd(() => {
+      throw new Error('listener bug');
+    });
+    tracer.onSpanEnd(span => seen.push(span.name));
+
+    const { spanId } = tracer.startSpan('test');
+    expect(() => tracer.endSpan(spanId)).not.toThrow();
+    await tracer.flush();
+
+    expect(seen).toEqual(['test']);
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(error).toHaveBeenCalledWith('[AgentBill] Span end listener failed:', expect.any(Error));
+  });
+});
+
+describe('AgentBillTracer batching and shutdown', () => {
+  function recordingExporter(): Exporter & { batches: SpanData[][]; shutdown: jest.Mock } {
+    const batches: SpanData[][] = [];
+    return {
+      batches,
+      export: async spans => {
+        batches.push(spans);
+        return { success: true };
+      },
+      shutdown: jest.fn(async () => {}),
+    };
+  }
+
+  function endSpans(tracer: AgentBillTracer, count: number) {
+    for (let i = 0; i < count; i++) {
+      tracer.endSpan(tracer.startSpan(`span-${i}`).spanId);
+    }
+  }
+
+  it('exports as soon as a full batch is queued', async () => {
+    const exporter = recordingExporter();
+    const tracer = new AgentBillTracer({ apiKey: 'test-api-key', exporter, maxBatchSize: 3, scheduledDelayMs: 60000, flushOnExit: false });
+
+    endSpans(tracer, 3);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(exporter.batches.map(batch => batch.length)).toEqual([3]);
+  });
+
+  it('exports a steady trickle of spans without waiting for a pause', async () => {
+    const exporter = recordingExporter();
+    const tracer = new AgentBillTracer({ apiKey: 'test-api-key', exporter, scheduledDelayMs: 30, flushOnExit: false });
+
+    for (let i = 0; i < 8; i++) {
+      endSpans(tracer, 1);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(exporter.batches.length).toBeGreaterThan(0);
+    await tracer.shutdown();
+  });
+
+  it('drains queued spans and shuts the exporters down', async () => {
+    const exporter = recordingExporter();
+    const tracer = new AgentBillTracer({ apiKey: 'test-api-key', exporter, scheduledDelayMs: 60000, flushOnExit: false });
+
+    endSpans(tracer, 2);
+    await tracer.shutdown();
+    endSpans(tracer, 1);
+    await tracer.flush();
+
+    expect(exporter.batches.map(batch => batch.length)).toEqual([2]);
+    expect(exporter.shutdown).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries and spills a failing export during shutdown', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const directory = mkdtempSync(path.join(tmpdir(), 'agentbill-shutdown-'));
+    const backoffTimers: NodeJS.Timeout[] = [];
+    const realSetTimeout = global.setTimeout;
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, delayMs: number) => {
+      const timer = realSetTimeout(callback, delayMs);
+      if (delayMs <= 20) backoffTimers.push(timer);
+      return timer;
+    }) as any);
+    try {
+      const exporter = { export: jest.fn().mockResolvedValue({ success: false, retryable: true, error: '503' }) };
+      const tracer = new AgentBillTracer({
+        apiKey: 'test-api-key',
+        exporter,
+        retry: { maxAttempts: 3, initialDelayMs: 20, maxDelayMs: 20 },
+        spillDirectory: directory,
+        scheduledDelayMs: 60000,
+        flushOnExit: false,
+      });
+
+      endSpans(tracer, 1);
+      await tracer.shutdown(10000);
+
+      expect(exporter.export).toHaveBeenCalledTimes(3);
+      expect(backoffTimers).toHaveLength(2);
+      backoffTimers.forEach(timer => expect(timer.hasRef()).toBe(true));
+      expect(tracer.getExportStats()).toMatchObject({ spilled: 1, queued: 0 });
+      expect(readdirSync(directory)).toHaveLength(1);
+    } finally {
+      setTimeoutSpy.mockRestore();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('gives up on shutdown at the deadline', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const tracer = new AgentBillTracer({
+      apiKey: 'test-api-key',
+      exporter: { export: () => new Promise(() => {}) },
+      exportTimeoutMs: 60000,
+      flushOnExit: false,
+    });
+
+    endSpans(tracer, 1);
+    const started = Date.now();
+    await tracer.shutdown(50);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Shutdown timed out after 50ms'));
+    warn.mockRestore();
+  });
+});
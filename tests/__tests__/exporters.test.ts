@@ -0,0 +1,91 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { ConsoleExporter, FileExporter, InMemoryExporter } from '../../src/exporters';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { Exporter } from '../../src/types';
+
+function fakeOpenAI() {
+  return {
+    chat: {
+      completions: {
+        create: async (_params: any) => ({
+          usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 },
+        }),
+      },
+    },
+  };
+}
+
+describe('Exporters', () => {
+  it('collects spans in memory without touching fetch', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch');
+    const exporter = new InMemoryExporter();
+    const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+
+    await wrapper.wrapOpenAI(fakeOpenAI()).chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('openai.chat.completions.create');
+    expect(span.attributes).toContainEqual({ key: 'gen_ai.usage.total_tokens', value: { intValue: '7' } });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    exporter.reset();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('writes JSON lines to stdout', async () => {
+    const lines: string[] = [];
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter: new ConsoleExporter({ write: line => lines.push(line) }),
+    });
+
+    await wrapper.wrapOpenAI(fakeOpenAI()).chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).name).toBe('openai.chat.completions.create');
+  });
+
+  it('appends JSON lines to a file', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'agentbill-export-'));
+    try {
+      const file = path.join(directory, 'nested', 'spans.jsonl');
+      const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter: new FileExporter(file) });
+      const client = wrapper.wrapOpenAI(fakeOpenAI());
+
+      await client.chat.completions.create({ model: 'gpt-4o' });
+      await client.chat.completions.create({ model: 'gpt-4o-mini' });
+      await wrapper.flush();
+
+      const spans = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(spans).toHaveLength(2);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('fans out to several exporters and retries each independently', async () => {
+    const healthy = new InMemoryExporter();
+    const flaky: Exporter = {
+      name: 'flaky',
+      export: jest.fn()
+        .mockResolvedValueOnce({ success: false, retryable: true })
+        .mockResolvedValue({ success: true }),
+    };
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter: [healthy, flaky],
+      retry: { initialDelayMs: 1, maxDelayMs: 5 },
+    });
+
+    await wrapper.wrapOpenAI(fakeOpenAI()).chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    expect(healthy.getFinishedSpans()).toHaveLength(1);
+    expect(flaky.export).toHaveBeenCalledTimes(2);
+    expect(wrapper.getExportStats()).toMatchObject({ exported: 2, retries: 1 });
+  });
+});
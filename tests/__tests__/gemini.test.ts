@@ -0,0 +1,88 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+describe('Gemini instrumentation', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  it('maps usageMetadata from generateContent', async () => {
+    const client = wrapper.wrapGemini({
+      models: {
+        generateContent: async (_params: any) => ({
+          candidates: [{ content: { parts: [{ text: 'Hi' }] } }],
+          modelVersion: 'gemini-2.5-flash',
+          usageMetadata: {
+            promptTokenCount: 1000,
+            cachedContentTokenCount: 400,
+            candidatesTokenCount: 200,
+            thoughtsTokenCount: 100,
+            totalTokenCount: 1300,
+          },
+        }),
+      },
+    });
+
+    await client.models.generateContent({
+      model: 'models/gemini-2.5-flash',
+      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      config: { maxOutputTokens: 512 },
+    });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('gemini.models.generateContent');
+    expect(attrs['gen_ai.request.model']).toBe('gemini-2.5-flash');
+    expect(attrs['gen_ai.request.max_tokens']).toBe(512);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(1000);
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(300);
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(1300);
+    expect(attrs['gen_ai.usage.cached_tokens']).toBe(400);
+    expect(attrs['gen_ai.usage.reasoning_tokens']).toBe(100);
+    expect(attrs['gen_ai.prompt.hash']).toBeDefined();
+    // 600 input at $0.30, 400 cached at $0.075 and 300 output at $2.50 per 1M
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.00096, 10);
+  });
+
+  it('takes the final usage from generateContentStream', async () => {
+    const client = wrapper.wrapGemini({
+      models: {
+        generateContentStream: async (_params: any) => chunks([
+          { candidates: [{}], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, totalTokenCount: 12 } },
+          { candidates: [{}], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 7, totalTokenCount: 17 } },
+        ]),
+      },
+    });
+
+    const stream: any = await client.models.generateContentStream({ model: 'gemini-2.0-flash', contents: 'Hello' });
+    for await (const _chunk of stream) {
+      // drain
+    }
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.request.stream']).toBe(true);
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(7);
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(17);
+  });
+
+  it('records Vertex AI embedding token counts', async () => {
+    const client = wrapper.wrapGemini({
+      models: {
+        embedContent: async (_params: any) => ({
+          embeddings: [{ values: [0.1], statistics: { tokenCount: 8 } }, { values: [0.2], statistics: { tokenCount: 4 } }],
+        }),
+      },
+    });
+
+    await client.models.embedContent({ model: 'gemini-embedding-001', contents: ['a', 'b'] });
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(12);
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.0000018, 12);
+  });
+});
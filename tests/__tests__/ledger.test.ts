@@ -0,0 +1,152 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { AgentBillConfig } from '../../src/types';
+
+describe('Usage ledger', () => {
+  let fetchMock: jest.SpyInstance;
+  let wrappers: AgentBillWrapper[];
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 200 } as any);
+    wrappers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(wrappers.map(wrapper => wrapper.flush()));
+    fetchMock.mockRestore();
+  });
+
+  function createWrapper(config: Partial<AgentBillConfig> = {}) {
+    const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter: new InMemoryExporter(), flushOnExit: false, ...config });
+    wrappers.push(wrapper);
+    return wrapper;
+  }
+
+  function recordTraffic(wrapper: AgentBillWrapper) {
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', customerId: 'acme', promptTokens: 1_000_000, completionTokens: 100_000 });
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o-mini', customerId: 'acme', promptTokens: 1_000_000, completionTokens: 0 });
+    wrapper.recordUsage({ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', customerId: 'globex', promptTokens: 10, error: new Error('overloaded') });
+    wrapper.trackSignal({ event_name: 'subscription', revenue: 10, customerId: 'acme' });
+  }
+
+  it('totals tokens, calls, errors, cost, revenue and margin', () => {
+    const wrapper = createWrapper();
+    recordTraffic(wrapper);
+    wrapper.trace('step', () => undefined);
+
+    const { totals } = wrapper.getUsageSummary();
+    expect(totals).toMatchObject({
+      calls: 3,
+      errors: 1,
+      promptTokens: 2_000_010,
+      completionTokens: 100_000,
+      totalTokens: 2_100_010,
+      signals: 1,
+      revenueUsd: 10,
+    });
+    // gpt-4o: 2.5 + 1.0, gpt-4o-mini: 0.15, claude-3-5-sonnet: 0.00003
+    expect(totals.costUsd).toBeCloseTo(3.65003, 8);
+    expect(totals.marginUsd).toBeCloseTo(6.34997, 8);
+  });
+
+  it('counts a re-tracked signal once', () => {
+    const wrapper = createWrapper({ ledger: { maxEntries: 2 } });
+    wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 2.5, idempotencyKey: 'ticket-1' });
+    wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 2.5, idempotencyKey: 'ticket-1' });
+    wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 4, idempotencyKey: 'ticket-2' });
+
+    expect(wrapper.getUsageSummary().totals).toMatchObject({ signals: 2, revenueUsd: 6.5, marginUsd: 6.5 });
+  });
+
+  it('groups by customer, model and provider', () => {
+    const wrapper = createWrapper();
+    recordTraffic(wrapper);
+
+    const byCustomer = wrapper.getUsageSummary({ groupBy: ['customer'] }).groups;
+    expect(byCustomer.map(group => [group.customer, group.calls, group.revenueUsd])).toEqual([
+      ['acme', 2, 10],
+      ['globex', 1, 0],
+    ]);
+    expect(byCustomer[0].marginUsd).toBeCloseTo(6.35, 6);
+
+    const byModel = wrapper.getUsageSummary({ groupBy: ['provider', 'model'], customerId: 'acme' }).groups;
+    expect(byModel.map(group => [group.provider, group.model, group.calls])).toEqual([
+      ['openai', 'gpt-4o', 1],
+      ['openai', 'gpt-4o-mini', 1],
+      [null, null, 0],
+    ]);
+  });
+
+  it('filters by time', async () => {
+    const wrapper = createWrapper();
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 5 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const since = new Date();
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 7 });
+
+    const summary = wrapper.getUsageSummary({ since });
+    expect(summary.totals.promptTokens).toBe(7);
+    expect(summary.since).toEqual(since);
+    expect(wrapper.getUsageSummary({ until: since }).totals.promptTokens).toBe(5);
+  });
+
+  it('keeps at most maxEntries rows', () => {
+    const wrapper = createWrapper({ ledger: { maxEntries: 2 } });
+    for (const promptTokens of [1, 2, 3]) {
+      wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens });
+    }
+    expect(wrapper.getUsageSummary().totals.promptTokens).toBe(5);
+
+    for (const promptTokens of [4, 5, 6]) {
+      wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens });
+    }
+    expect(wrapper.getUsageSummary().totals).toMatchObject({ calls: 2, promptTokens: 11 });
+  });
+
+  it('can be turned off', () => {
+    const wrapper = createWrapper({ ledger: false });
+    expect(() => wrapper.getUsageSummary()).toThrow('usage ledger is disabled');
+  });
+
+  describe('files', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'agentbill-ledger-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('appends JSON lines', async () => {
+      const file = path.join(directory, 'usage.jsonl');
+      const wrapper = createWrapper({ ledger: { file } });
+      recordTraffic(wrapper);
+      await wrapper.flush();
+
+      const rows = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(rows).toHaveLength(4);
+      expect(rows[0]).toMatchObject({ type: 'call', customer: 'acme', provider: 'openai', model: 'gpt-4o', operation: 'openai.call' });
+      expect(rows[3]).toMatchObject({ type: 'signal', event: 'subscription', revenueUsd: 10 });
+    });
+
+    it('appends CSV rows under a single header', async () => {
+      const file = path.join(directory, 'nested', 'usage.csv');
+      const wrapper = createWrapper({ ledger: { file } });
+      wrapper.trackSignal({ event_name: 'plan, "pro"', revenue: 3 });
+      await wrapper.flush();
+      wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 5 });
+      await wrapper.flush();
+
+      const lines = readFileSync(file, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toBe('timestamp,type,customer,provider,model,operation,event,promptTokens,completionTokens,totalTokens,costUsd,revenueUsd,error,traceId,spanId,idempotencyKey');
+      expect(lines[1]).toContain(',signal,,,,,"plan, ""pro""",0,0,0,0,3,false,');
+      expect(lines[2]).toContain(',call,,openai,gpt-4o,openai.call,,5,0,5,');
+    });
+  });
+});
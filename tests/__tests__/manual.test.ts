@@ -0,0 +1,144 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { BudgetExceededError } from '../../src/errors';
+import { attributes, finishedSpans } from '../helpers';
+
+describe('Manual instrumentation', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', customerId: 'customer-1', exporter });
+  });
+
+  it('records the same attributes as a wrapped client', async () => {
+    const messages = [{ role: 'user', content: 'Hello' }];
+    const openai = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => ({ usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 } }),
+        },
+      },
+    });
+    await openai.chat.completions.create({ model: 'gpt-4o', messages });
+    wrapper.recordUsage({
+      provider: 'openai',
+      model: 'gpt-4o',
+      operation: 'chat.completions.create',
+      prompt: { messages },
+      promptTokens: 100,
+      completionTokens: 20,
+      latencyMs: 250,
+    });
+
+    const [wrapped, manual] = await finishedSpans(wrapper, exporter);
+    expect(manual.name).toBe(wrapped.name);
+    expect(manual.kind).toBe(wrapped.kind);
+    expect(manual.status).toEqual(wrapped.status);
+
+    const { 'gen_ai.response.latency_ms': wrappedLatency, ...wrappedAttrs } = attributes(wrapped);
+    const { 'gen_ai.response.latency_ms': manualLatency, ...manualAttrs } = attributes(manual);
+    expect(manualAttrs).toEqual(wrappedAttrs);
+    expect(wrappedLatency).toBeDefined();
+    expect(manualLatency).toBe(250);
+  });
+
+  it('backdates the span by the latency and applies attribution', async () => {
+    const before = Date.now();
+    const context = wrapper.recordUsage({
+      provider: 'ollama',
+      model: 'llama3.2',
+      prompt: 'Why is the sky blue?',
+      completionTokens: 40,
+      latencyMs: 5000,
+      customerId: 'customer-2',
+      attributes: { 'app.feature': 'faq' },
+    });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('ollama.call');
+    expect(span.spanId).toBe(context.spanId);
+    expect(Number(span.startTimeUnixNano) / 1e6).toBeLessThanOrEqual(before - 5000 + 50);
+    expect(attrs['customer.id']).toBe('customer-2');
+    expect(attrs['app.feature']).toBe('faq');
+    expect(attrs['gen_ai.prompt.hash']).toBeDefined();
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(0);
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(40);
+  });
+
+  it('records failed calls', async () => {
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', error: new Error('timeout') });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    expect(span.status).toEqual({ code: 2, message: 'timeout' });
+    expect(attributes(span)['gen_ai.usage.prompt_tokens']).toBeUndefined();
+  });
+
+  describe('span()', () => {
+    it('times the call and prices the reported usage', async () => {
+      const result = await wrapper.span('anthropic.messages.create', async span => {
+        const model = span.setRequest({ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' });
+        span.setAttribute('app.step', 'draft');
+        span.setUsage({ promptTokens: 1_000_000, completionTokens: 1_000_000 });
+        return model;
+      });
+
+      expect(result).toBe('claude-3-5-sonnet-20241022');
+      const [span] = await finishedSpans(wrapper, exporter);
+      const attrs = attributes(span);
+      expect(span.kind).toBe('client');
+      expect(span.status?.code).toBe(0);
+      expect(attrs['gen_ai.system']).toBe('anthropic');
+      expect(attrs['app.step']).toBe('draft');
+      expect(attrs['gen_ai.response.latency_ms']).toBeDefined();
+      expect(attrs['gen_ai.usage.total_tokens']).toBe(2_000_000);
+      expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(18, 8);
+    });
+
+    it('makes calls inside it children of the span', async () => {
+      await wrapper.span('pipeline.call', async span => {
+        wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o-mini', promptTokens: 10 });
+        expect(span.spanId).toBeDefined();
+      });
+
+      const [child, parent] = await finishedSpans(wrapper, exporter);
+      expect(child.parentSpanId).toBe(parent.spanId);
+      expect(child.traceId).toBe(parent.traceId);
+    });
+
+    it('records errors thrown by the call and rethrows them', async () => {
+      await expect(wrapper.span('acme.generate', async span => {
+        span.setRequest({ provider: 'acme', model: 'acme-large' });
+        throw new Error('bad gateway');
+      })).rejects.toThrow('bad gateway');
+
+      const [span] = await finishedSpans(wrapper, exporter);
+      expect(span.status).toEqual({ code: 2, message: 'bad gateway' });
+      expect(attributes(span)['error']).toBe(true);
+    });
+
+    it('enforces budgets when the request is set', async () => {
+      const budgeted = new AgentBillWrapper({
+        apiKey: 'test-api-key',
+        exporter,
+        budgets: [
+          { scope: 'global', window: 'day', maxTokens: 10, action: 'downgrade', downgradeModel: 'gpt-4o-mini' },
+          { name: 'hard-cap', scope: 'global', window: 'day', maxTokens: 20 },
+        ],
+        onBudgetEvent: () => undefined,
+      });
+      budgeted.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 15 });
+
+      const model = await budgeted.span('openai.call', span => span.setRequest({ provider: 'openai', model: 'gpt-4o' }));
+      expect(model).toBe('gpt-4o-mini');
+
+      budgeted.recordUsage({ provider: 'openai', model: 'gpt-4o-mini', promptTokens: 10 });
+      await expect(budgeted.span('openai.call', span => {
+        span.setRequest({ provider: 'openai', model: 'gpt-4o' });
+      })).rejects.toBeInstanceOf(BudgetExceededError);
+      await budgeted.flush();
+    });
+  });
+});
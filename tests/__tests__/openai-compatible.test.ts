@@ -0,0 +1,65 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, finishedSpans } from '../helpers';
+
+function openAIClient(baseURL?: string) {
+  return {
+    baseURL,
+    chat: {
+      completions: {
+        create: async (params: any) => ({
+          model: params.model,
+          usage: { prompt_tokens: 1_000_000, completion_tokens: 1_000_000, total_tokens: 2_000_000 },
+        }),
+      },
+    },
+  };
+}
+
+describe('OpenAI-compatible providers', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  async function decodedSpans() {
+    return (await finishedSpans(wrapper, exporter)).map(span => ({ name: span.name, attrs: attributes(span) }));
+  }
+
+  it('detects the provider from the client baseURL', async () => {
+    const groq = wrapper.wrapOpenAI(openAIClient('https://api.groq.com/openai/v1'));
+    const ollama = wrapper.wrapOpenAI(openAIClient('http://localhost:11434/v1'));
+    const openai = wrapper.wrapOpenAI(openAIClient('https://api.openai.com/v1'));
+
+    await groq.chat.completions.create({ model: 'llama-3.3-70b-versatile' });
+    await ollama.chat.completions.create({ model: 'llama3.2' });
+    await openai.chat.completions.create({ model: 'gpt-4o' });
+
+    const [groqSpan, ollamaSpan, openaiSpan] = await decodedSpans();
+    expect(groqSpan.name).toBe('groq.chat.completions.create');
+    expect(groqSpan.attrs['gen_ai.system']).toBe('groq');
+    expect(groqSpan.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(1.38, 8);
+    expect(ollamaSpan.attrs['gen_ai.system']).toBe('ollama');
+    expect(ollamaSpan.attrs['agentbill.pricing.unknown_model']).toBe(true);
+    expect(openaiSpan.name).toBe('openai.chat.completions.create');
+    expect(openaiSpan.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(12.5, 8);
+  });
+
+  it('uses the provider and pricing passed to wrapOpenAICompatible', async () => {
+    const client = wrapper.wrapOpenAICompatible(openAIClient('http://vllm.internal:8000/v1'), {
+      provider: 'vllm',
+      pricing: { 'meta-llama/Llama-3.1-8B-Instruct': { input: 0.05, output: 0.1 } },
+    });
+
+    await client.chat.completions.create({ model: 'meta-llama/Llama-3.1-8B-Instruct' });
+
+    const [span] = await decodedSpans();
+    expect(span.name).toBe('vllm.chat.completions.create');
+    expect(span.attrs['gen_ai.system']).toBe('vllm');
+    expect(span.attrs['ai.provider']).toBe('vllm');
+    expect(span.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.15, 8);
+  });
+});
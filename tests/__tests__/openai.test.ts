@@ -0,0 +1,120 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+const responsesResult = {
+  id: 'resp_1',
+  model: 'o4-mini-2025-04-16',
+  output: [
+    { type: 'reasoning', summary: [] },
+    { type: 'web_search_call', status: 'completed' },
+    { type: 'web_search_call', status: 'completed' },
+    { type: 'function_call', name: 'lookup', call_id: 'c1' },
+    { type: 'message', content: [{ type: 'output_text', text: 'Sunny' }] },
+  ],
+  usage: {
+    input_tokens: 1000,
+    input_tokens_details: { cached_tokens: 400 },
+    output_tokens: 500,
+    output_tokens_details: { reasoning_tokens: 300 },
+    total_tokens: 1500,
+  },
+};
+
+describe('OpenAI Responses and Completions APIs', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  it('tracks responses.create usage, reasoning tokens and built-in tools', async () => {
+    const client = wrapper.wrapOpenAI({
+      responses: { create: async (_params: any) => responsesResult },
+    });
+
+    const response = await client.responses.create({ model: 'o4-mini', input: 'Weather in Paris?', max_output_tokens: 800 });
+    expect(response).toBe(responsesResult);
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('openai.responses.create');
+    expect(attrs['gen_ai.request.max_tokens']).toBe(800);
+    expect(attrs['gen_ai.usage.prompt_tokens']).toBe(1000);
+    expect(attrs['gen_ai.usage.completion_tokens']).toBe(500);
+    expect(attrs['gen_ai.usage.cached_tokens']).toBe(400);
+    expect(attrs['gen_ai.usage.reasoning_tokens']).toBe(300);
+    expect(attrs['gen_ai.usage.tool_calls.web_search']).toBe(2);
+    expect(attrs['gen_ai.usage.tool_calls.function']).toBeUndefined();
+    // 600 input at $1.10, 400 cached at $0.275 and 500 output at $4.40 per 1M
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.00297, 8);
+  });
+
+  it('reads usage from the response.completed stream event', async () => {
+    const client = wrapper.wrapOpenAI({
+      responses: {
+        create: async (_params: any) => chunks([
+          { type: 'response.created', response: { model: 'o4-mini-2025-04-16' } },
+          { type: 'response.output_text.delta', delta: 'Sun' },
+          { type: 'response.output_text.delta', delta: 'ny' },
+          { type: 'response.completed', response: responsesResult },
+        ]),
+      },
+    });
+
+    const stream: any = await client.responses.create({ model: 'o4-mini', input: 'Weather?', stream: true });
+    for await (const _event of stream) {
+      // drain
+    }
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.request.stream']).toBe(true);
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(1500);
+    expect(attrs['gen_ai.usage.reasoning_tokens']).toBe(300);
+    expect(attrs['gen_ai.usage.tool_calls.web_search']).toBe(2);
+    expect(attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+  });
+
+  it('tracks the legacy completions.create API', async () => {
+    const client = wrapper.wrapOpenAI({
+      completions: {
+        create: async (_params: any) => ({
+          model: 'gpt-3.5-turbo-instruct',
+          choices: [{ text: 'Hi' }],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      },
+    });
+
+    await client.completions.create({ model: 'gpt-3.5-turbo-instruct', prompt: 'Say hi' });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(span.name).toBe('openai.completions.create');
+    expect(attrs['gen_ai.usage.total_tokens']).toBe(15);
+    expect(attrs['gen_ai.prompt.hash']).toBeDefined();
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.000025, 10);
+  });
+
+  it('records the model an Azure deployment resolved to', async () => {
+    const client = wrapper.wrapAzureOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => ({
+            model: 'gpt-4o-2024-08-06',
+            choices: [{ finish_reason: 'stop', message: { content: 'Hi' } }],
+            usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+          }),
+        },
+      },
+    });
+
+    await client.chat.completions.create({ model: 'support-bot-prod', messages: [] });
+
+    const attrs = attributes((await finishedSpans(wrapper, exporter))[0]);
+    expect(attrs['gen_ai.request.model']).toBe('support-bot-prod');
+    expect(attrs['gen_ai.response.model']).toBe('gpt-4o-2024-08-06');
+  });
+});
@@ -0,0 +1,87 @@
+import { AgentBillSpanExporter } from '../../src/otel';
+import { InMemoryExporter, OtlpHttpExporter } from '../../src/exporters';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { OtelReadableSpan, OtelTraceApi } from '../../src/types';
+
+const activeTraceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+const activeSpanId = '00f067aa0ba902b7';
+
+describe('OpenTelemetry interop', () => {
+  it('parents wrapped calls under the active OpenTelemetry span', async () => {
+    let active = true;
+    const trace: OtelTraceApi = {
+      getActiveSpan: () => active
+        ? { spanContext: () => ({ traceId: activeTraceId, spanId: activeSpanId }) }
+        : undefined,
+    };
+    const exporter = new InMemoryExporter();
+    const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter, openTelemetry: { trace } });
+    const client = wrapper.wrapOpenAI({
+      chat: { completions: { create: async (_params: any) => ({}) } },
+    });
+
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    active = false;
+    await client.chat.completions.create({ model: 'gpt-4o' });
+    await wrapper.flush();
+
+    const [nested, root] = exporter.getFinishedSpans();
+    expect(nested.traceId).toBe(activeTraceId);
+    expect(nested.parentSpanId).toBe(activeSpanId);
+    expect(root.traceId).not.toBe(activeTraceId);
+    expect(root.parentSpanId).toBeUndefined();
+  });
+
+  it('forwards gen_ai spans from an OpenTelemetry TracerProvider', async () => {
+    const destination = new InMemoryExporter();
+    const spanExporter = new AgentBillSpanExporter({ apiKey: 'test-api-key', exporter: destination });
+    const readable = (name: string, attributes: Record<string, unknown>): OtelReadableSpan => ({
+      name,
+      kind: 2,
+      spanContext: () => ({ traceId: activeTraceId, spanId: activeSpanId }),
+      parentSpanContext: { spanId: 'b7ad6b7169203331' },
+      startTime: [1700000000, 5],
+      endTime: [1700000001, 0],
+      attributes,
+      status: { code: 1 },
+      events: [],
+    });
+    const callback = jest.fn();
+
+    spanExporter.export([
+      readable('chat gpt-4o', { 'gen_ai.system': 'openai', 'gen_ai.usage.input_tokens': 12 }),
+      readable('GET /health', { 'http.method': 'GET' }),
+    ], callback);
+    await spanExporter.forceFlush();
+
+    expect(callback).toHaveBeenCalledWith({ code: 0 });
+    const spans = destination.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: 'chat gpt-4o',
+      kind: 'client',
+      parentSpanId: 'b7ad6b7169203331',
+      startTimeUnixNano: '1700000000000000005',
+      endTimeUnixNano: '1700000001000000000',
+    });
+    expect(spans[0].attributes).toContainEqual({ key: 'gen_ai.usage.input_tokens', value: { intValue: '12' } });
+  });
+
+  it('sends OTLP/JSON to an arbitrary endpoint', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 200 } as any);
+    const config = { apiKey: 'test-api-key' };
+    const exporter = new OtlpHttpExporter({
+      url: 'http://localhost:4318/v1/traces',
+      headers: { 'x-tenant': 'acme' },
+      config,
+    });
+
+    const result = await exporter.export([]);
+
+    expect(result.success).toBe(true);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:4318/v1/traces');
+    expect((init as any).headers['x-tenant']).toBe('acme');
+    expect(JSON.parse((init as any).body).resourceSpans).toHaveLength(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { AgentBillTracer } from '../../src/tracer';
+import { InMemoryExporter } from '../../src/exporters';
+import { buildExportPayload, decodeValue, encodeValue } from '../../src/otlp';
+import { finishedSpans } from '../helpers';
+
+describe('OTLP encoding', () => {
+  let exporter: InMemoryExporter;
+  let tracer: AgentBillTracer;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    tracer = new AgentBillTracer({ apiKey: 'test-api-key', exporter });
+  });
+
+  it('encodes values as OTLP AnyValues', () => {
+    expect(encodeValue(42)).toEqual({ intValue: '42' });
+    expect(encodeValue(0.5)).toEqual({ doubleValue: 0.5 });
+    expect(encodeValue(2 ** 60)).toEqual({ doubleValue: 2 ** 60 });
+    expect(encodeValue(BigInt('9007199254740993'))).toEqual({ intValue: '9007199254740993' });
+    expect(encodeValue(['a', 1])).toEqual({ arrayValue: { values: [{ stringValue: 'a' }, { intValue: '1' }] } });
+    expect(encodeValue({ plan: 'pro', seats: 3, skip: undefined })).toEqual({
+      kvlistValue: { values: [{ key: 'plan', value: { stringValue: 'pro' } }, { key: 'seats', value: { intValue: '3' } }] },
+    });
+
+    const value = { tags: ['a', 'b'], nested: { on: true, ratio: 0.25 } };
+    expect(decodeValue(encodeValue(value))).toEqual(value);
+  });
+
+  it('builds spans with kind enums, events, links and dropped counts', async () => {
+    const llm = tracer.startSpan('openai.chat.completions.create');
+    tracer.endSpan(llm.spanId);
+    const tool = tracer.startSpan('tool.search', undefined, 'internal');
+    tracer.setSpanAttribute(tool.spanId, 'attempt', 1);
+    tracer.setSpanAttribute(tool.spanId, 'attempt', 2);
+    for (let i = 0; i < 130; i++) {
+      tracer.addSpanEvent(tool.spanId, 'retry', { attempt: i });
+    }
+    tracer.addSpanLink(tool.spanId, llm, { 'agentbill.link.type': 'tool_call' });
+    tracer.endSpan(tool.spanId);
+
+    const payload = buildExportPayload(await finishedSpans(tracer, exporter), { apiKey: 'test-api-key' });
+    const [client, internal] = payload.resourceSpans[0].scopeSpans[0].spans;
+    expect(client.kind).toBe(3);
+    expect(internal.kind).toBe(1);
+    expect(internal.attributes.filter(a => a.key === 'attempt')).toEqual([{ key: 'attempt', value: { intValue: '2' } }]);
+    expect(internal.droppedAttributesCount).toBe(0);
+    expect(internal.events).toHaveLength(128);
+    expect(internal.events[0]).toEqual({
+      timeUnixNano: expect.any(String),
+      name: 'retry',
+      attributes: [{ key: 'attempt', value: { intValue: '0' } }],
+      droppedAttributesCount: 0,
+    });
+    expect(internal.droppedEventsCount).toBe(2);
+    expect(internal.links).toEqual([{
+      traceId: llm.traceId,
+      spanId: llm.spanId,
+      attributes: [{ key: 'agentbill.link.type', value: { stringValue: 'tool_call' } }],
+      droppedAttributesCount: 0,
+    }]);
+    expect(internal.droppedLinksCount).toBe(0);
+  });
+
+  it('drops attributes beyond the per-span limit', async () => {
+    const { spanId } = tracer.startSpan('busy');
+    for (let i = 0; i < 140; i++) {
+      tracer.setSpanAttribute(spanId, `key.${i}`, i);
+    }
+    tracer.endSpan(spanId);
+
+    const [span] = await finishedSpans(tracer, exporter);
+    expect(span.attributes).toHaveLength(128);
+    expect(span.droppedAttributesCount).toBe(12);
+  });
+
+  it('describes the service from the resource config', () => {
+    const payload = buildExportPayload([], {
+      apiKey: 'test-api-key',
+      customerId: 'customer-1',
+      resource: {
+        serviceName: 'support-bot',
+        serviceVersion: '2.3.1',
+        environment: 'production',
+        deployment: 'release-42',
+        host: 'worker-7',
+        attributes: { 'cloud.region': 'eu-west-1' },
+      },
+    });
+
+    const resource = Object.fromEntries(
+      payload.resourceSpans[0].resource.attributes.map(a => [a.key, decodeValue(a.value)])
+    );
+    expect(resource).toEqual({
+      'cloud.region': 'eu-west-1',
+      'service.name': 'support-bot',
+      'service.version': '2.3.1',
+      'deployment.environment.name': 'production',
+      'deployment.id': 'release-42',
+      'host.name': 'worker-7',
+      'telemetry.sdk.name': 'agentbill',
+      'telemetry.sdk.language': 'nodejs',
+      'telemetry.sdk.version': '1.0.0',
+      'customer.id': 'customer-1',
+    });
+  });
+
+  it('defaults the service name', () => {
+    const payload = buildExportPayload([], { apiKey: 'test-api-key' });
+    expect(payload.resourceSpans[0].resource.attributes).toContainEqual({
+      key: 'service.name',
+      value: { stringValue: 'agentbill-sdk' },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { PricingRegistry } from '../../src/pricing';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { attributes } from '../helpers';
+
+describe('PricingRegistry', () => {
+  const registry = new PricingRegistry();
+
+  it('resolves dated model snapshots to their family', () => {
+    expect(registry.lookup('openai', 'gpt-4o-2024-08-06')).toBe(registry.lookup('openai', 'gpt-4o'));
+    expect(registry.lookup('openai', 'gpt-4o-mini-2024-07-18')).toBe(registry.lookup('openai', 'gpt-4o-mini'));
+    expect(registry.lookup('anthropic', 'claude-3-5-sonnet-20241022')).toBeDefined();
+    expect(registry.lookup('bedrock', 'us.anthropic.claude-3-5-sonnet-20241022-v2:0')).toBeDefined();
+  });
+
+  it('prices regular, cached and batch tokens', () => {
+    expect(registry.calculateCost('openai', 'gpt-4o', {
+      inputTokens: 1_000_000,
+      cachedInputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+    })).toEqual({ costUsd: 2.5 + 1.25 + 10, known: true });
+
+    expect(registry.calculateCost('anthropic', 'claude-3-5-sonnet-latest', {
+      inputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+      batch: true,
+    })).toEqual({ costUsd: 1.5 + 7.5, known: true });
+  });
+
+  it('prices images, audio minutes and characters', () => {
+    expect(registry.calculateCost('openai', 'dall-e-3', { images: 2, imageQuality: 'hd' }).costUsd).toBeCloseTo(0.16);
+    expect(registry.calculateCost('openai', 'whisper-1', { audioSeconds: 120 }).costUsd).toBeCloseTo(0.012);
+    expect(registry.calculateCost('openai', 'tts-1', { characters: 1000 }).costUsd).toBeCloseTo(0.015);
+  });
+
+  it('reports unknown models instead of costing them at zero', () => {
+    expect(registry.calculateCost('openai', 'my-fine-tune', { inputTokens: 10 })).toEqual({ costUsd: 0, known: false });
+  });
+
+  it('applies overrides on top of the bundled table', () => {
+    const custom = new PricingRegistry({
+      openai: { 'gpt-4o': { input: 1, output: 2 } },
+      custom: { 'llama-3-70b': { input: 0.5, output: 0.5 } },
+    });
+    expect(custom.calculateCost('openai', 'gpt-4o', { inputTokens: 1_000_000 }).costUsd).toBe(1);
+    expect(custom.calculateCost('custom', 'llama-3-70b', { outputTokens: 2_000_000 }).costUsd).toBe(1);
+    expect(custom.lookup('openai', 'gpt-4o-mini')).toBeDefined();
+  });
+});
+
+describe('Cost attributes', () => {
+  it('sets gen_ai.usage.cost_usd on wrapped calls', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, json: async () => ({}) } as any);
+    const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key' });
+    const client = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => ({
+            model: 'gpt-4o-mini-2024-07-18',
+            usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+          }),
+        },
+      },
+    });
+
+    await client.chat.completions.create({ model: 'gpt-4o-mini' });
+    await wrapper.flush();
+
+    const spans = JSON.parse(fetchMock.mock.calls[0][1]!.body as string).resourceSpans[0].scopeSpans[0].spans;
+    const attrs = attributes(spans[0]);
+    expect(attrs['gen_ai.usage.cost_usd']).toBeCloseTo(0.00045);
+    expect(attrs['agentbill.pricing.version']).toBeDefined();
+  });
+});
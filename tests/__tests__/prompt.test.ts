@@ -0,0 +1,101 @@
+import { BUILT_IN_REDACTORS, hashPrompt, normalizePrompt, redactPrompt } from '../../src/prompt';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { AgentBillConfig } from '../../src/types';
+import { attributes } from '../helpers';
+
+describe('Prompt normalization', () => {
+  it('normalizes OpenAI chat messages with content parts', () => {
+    expect(normalizePrompt({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: [{ type: 'text', text: 'Describe' }, { type: 'image_url', image_url: { url: 'x' } }] },
+      ],
+    })).toBe('system: Be brief.\nuser: Describe [image_url]');
+  });
+
+  it('normalizes Anthropic system blocks and tool use', () => {
+    expect(normalizePrompt({
+      system: [{ type: 'text', text: 'You are helpful.' }],
+      messages: [
+        { role: 'assistant', content: [{ type: 'tool_use', name: 'search', input: { q: 'x' } }] },
+      ],
+    })).toBe('system: You are helpful.\nassistant: [tool_use search] {"q":"x"}');
+  });
+
+  it('normalizes Responses API instructions and input items', () => {
+    expect(normalizePrompt({
+      instructions: 'Be brief.',
+      input: [
+        { role: 'user', content: [{ type: 'input_text', text: 'Weather?' }] },
+        { type: 'function_call_output', call_id: 'c1', output: 'sunny' },
+      ],
+    })).toBe('system: Be brief.\nuser: Weather?\n[function_call_output]');
+  });
+
+  it('handles single-input APIs', () => {
+    expect(normalizePrompt({ input: ['a', 'b'] })).toBe('a\nb');
+    expect(normalizePrompt({ prompt: 'A cat' })).toBe('A cat');
+    expect(normalizePrompt({ model: 'x' })).toBeUndefined();
+  });
+
+  it('produces a stable SHA-256 hash', () => {
+    expect(hashPrompt('hello')).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+  });
+});
+
+describe('Prompt redaction', () => {
+  it('scrubs emails, phone numbers and API keys', () => {
+    const text = 'Mail jane.doe@example.com or call +1 415-555-0123 using sk-proj-abcdefghijklmnop1234';
+    expect(redactPrompt(text, BUILT_IN_REDACTORS)).toBe('Mail [EMAIL] or call [PHONE] using [API_KEY]');
+  });
+
+  it('applies custom regexes and functions', () => {
+    const redactors = [/acct-\d+/g, (text: string) => text.toUpperCase()];
+    expect(redactPrompt('close acct-991', redactors)).toBe('CLOSE [REDACTED]');
+  });
+
+  it('replaces every match of patterns without the g flag', () => {
+    const redactors = [/acct-\d+/, { pattern: /pin \d{4}/i, replacement: 'pin [PIN]' }];
+    expect(redactPrompt('merge acct-991 into acct-992, PIN 1234 and pin 5678', redactors))
+      .toBe('merge [REDACTED] into [REDACTED], pin [PIN] and pin [PIN]');
+  });
+});
+
+describe('Prompt capture modes', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, json: async () => ({}) } as any);
+  });
+
+  async function captureAttributes(config: Partial<AgentBillConfig>) {
+    const wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', ...config });
+    const client = wrapper.wrapOpenAI({
+      chat: { completions: { create: async (_params: any) => ({}) } },
+    });
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'My email is jane@example.com' }],
+    });
+    await wrapper.flush();
+    const span = JSON.parse(fetchMock.mock.calls[0][1].body).resourceSpans[0].scopeSpans[0].spans[0];
+    return attributes(span);
+  }
+
+  it('records only the hash by default', async () => {
+    const attrs = await captureAttributes({});
+    expect(attrs['gen_ai.prompt.hash']).toBe(hashPrompt('user: My email is jane@example.com'));
+    expect(attrs['gen_ai.prompt.content']).toBeUndefined();
+  });
+
+  it('records scrubbed text in redacted mode', async () => {
+    const attrs = await captureAttributes({ promptCapture: 'redacted' });
+    expect(attrs['gen_ai.prompt.content']).toBe('user: My email is [EMAIL]');
+    expect(attrs['gen_ai.prompt.hash']).toBe(hashPrompt('user: My email is [EMAIL]'));
+  });
+
+  it('records nothing when off', async () => {
+    const attrs = await captureAttributes({ promptCapture: 'off' });
+    expect(attrs['gen_ai.prompt.hash']).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { gunzipSync } from 'zlib';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { CollectorExporter, InMemoryExporter, OtlpHttpExporter } from '../../src/exporters';
+import { buildExportPayload } from '../../src/otlp';
+import { decodeTraceRequest, encodeTraceRequest } from '../../src/protobuf';
+import { AgentBillConfig, OtelExportPayload } from '../../src/types';
+
+interface CollectedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Stand-in OTLP/HTTP collector recording the requests it receives
+ */
+function startCollector(): Promise<{ url: string; requests: CollectedRequest[]; server: Server }> {
+  const requests: CollectedRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ url: `http://127.0.0.1:${port}`, requests, server });
+  }));
+}
+
+function decode(request: CollectedRequest): OtelExportPayload {
+  const body = request.headers['content-encoding'] === 'gzip' ? gunzipSync(request.body) : request.body;
+  return request.headers['content-type'] === 'application/x-protobuf'
+    ? decodeTraceRequest(body)
+    : JSON.parse(body.toString('utf8'));
+}
+
+describe('OTLP/HTTP export encodings', () => {
+  let collector: { url: string; requests: CollectedRequest[]; server: Server };
+
+  beforeEach(async () => {
+    collector = await startCollector();
+  });
+
+  afterEach(done => {
+    collector.server.close(done);
+  });
+
+  async function exportSampleSpans(exporterConfig: AgentBillConfig, url: string) {
+    const memory = new InMemoryExporter();
+    const wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter: [memory, new OtlpHttpExporter({ url, config: exporterConfig })],
+    });
+    const openai = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => ({
+            choices: [{
+              finish_reason: 'tool_calls',
+              message: { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"q":"é"}' } }] },
+            }],
+            usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+          }),
+        },
+      },
+    });
+    const search = wrapper.wrapTool('search', async () => {
+      throw new Error('index offline');
+    });
+
+    await openai.chat.completions.create({ model: 'gpt-4o', messages: [], tools: [{ type: 'function', function: { name: 'search' } }] });
+    await wrapper.trace('act', () => search()).catch(() => undefined);
+    await wrapper.flush();
+    return buildExportPayload(memory.getFinishedSpans(), exporterConfig);
+  }
+
+  it('sends gzipped protobuf that decodes to the JSON payload', async () => {
+    const config: AgentBillConfig = {
+      apiKey: 'test-api-key',
+      protocol: 'http/protobuf',
+      compression: 'gzip',
+      resource: { serviceName: 'support-bot', attributes: { 'build.number': 42 } },
+    };
+    const expected = await exportSampleSpans(config, `${collector.url}/v1/traces`);
+
+    expect(collector.requests).toHaveLength(1);
+    const [request] = collector.requests;
+    expect(request.url).toBe('/v1/traces');
+    expect(request.headers['content-type']).toBe('application/x-protobuf');
+    expect(request.headers['content-encoding']).toBe('gzip');
+    expect(decode(request)).toEqual(expected);
+
+    const spans = expected.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.some(span => span.events.length > 0)).toBe(true);
+    expect(spans.some(span => span.links.length > 0)).toBe(true);
+    expect(spans.some(span => span.status?.code === 2)).toBe(true);
+  });
+
+  it('sends gzipped JSON', async () => {
+    const config: AgentBillConfig = { apiKey: 'test-api-key', compression: 'gzip' };
+    const expected = await exportSampleSpans(config, `${collector.url}/v1/traces`);
+
+    const [request] = collector.requests;
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['content-encoding']).toBe('gzip');
+    expect(decode(request)).toEqual(JSON.parse(JSON.stringify(expected)));
+  });
+
+  it('applies the config to the AgentBill collector', async () => {
+    const config: AgentBillConfig = { apiKey: 'test-api-key', baseUrl: collector.url, protocol: 'http/protobuf' };
+    const exporter = new CollectorExporter(config);
+    const wrapper = new AgentBillWrapper({ ...config, exporter });
+    wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 5 });
+    await wrapper.flush();
+
+    const [request] = collector.requests;
+    expect(request.url).toBe('/functions/v1/otel-collector');
+    expect(request.headers['x-api-key']).toBe('test-api-key');
+    expect(request.headers['content-encoding']).toBeUndefined();
+    expect(decode(request).resourceSpans[0].scopeSpans[0].spans[0].name).toBe('openai.call');
+  });
+
+  it('round-trips edge-case values', () => {
+    const payload: OtelExportPayload = {
+      resourceSpans: [{
+        resource: { attributes: [] },
+        scopeSpans: [{
+          scope: { name: 'test', version: '1' },
+          spans: [{
+            traceId: '0af7651916cd43dd8448eb211c80319c',
+            spanId: 'b7ad6b7169203331',
+            name: 'edge',
+            kind: 3,
+            startTimeUnixNano: '1718000000123456789',
+            endTimeUnixNano: '1718000000223456789',
+            attributes: [
+              { key: 'negative', value: { intValue: '-5' } },
+              { key: 'max', value: { intValue: '9223372036854775807' } },
+              { key: 'zero', value: { intValue: '0' } },
+              { key: 'empty', value: { stringValue: '' } },
+              { key: 'off', value: { boolValue: false } },
+              { key: 'ratio', value: { doubleValue: 0.1 } },
+              { key: 'raw', value: { bytesValue: 'AAEC' } },
+            ],
+            droppedAttributesCount: 3,
+            events: [],
+            droppedEventsCount: 0,
+            links: [],
+            droppedLinksCount: 1,
+            status: { code: 2, message: 'failed' },
+          }],
+        }],
+      }],
+    };
+
+    expect(decodeTraceRequest(encodeTraceRequest(payload))).toEqual(payload);
+  });
+});
@@ -0,0 +1,140 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { getProvider, registerProvider } from '../../src/registry';
+import { StreamUsage } from '../../src/types';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+registerProvider({
+  name: 'acme',
+  methods: [
+    {
+      path: 'llm.generate',
+      request: params => ({
+        model: params.model,
+        prompt: params,
+        attributes: { 'gen_ai.request.temperature': params.temperature },
+      }),
+      response: response => ({ promptTokens: response.tokensIn, completionTokens: response.tokensOut }),
+      stream: params => params.stream
+        ? {
+          read: (chunk: any, usage: StreamUsage) => {
+            usage.completionTokens = (usage.completionTokens || 0) + 1;
+            return chunk.text !== undefined;
+          },
+        }
+        : undefined,
+    },
+    {
+      path: 'llm.classify',
+      operation: args => args[0]?.dryRun ? undefined : 'classify',
+      request: params => ({ model: params.model }),
+      response: response => ({ attributes: { 'acme.label': response.label }, cost: {} }),
+    },
+  ],
+});
+
+describe('Provider registry', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter,
+      pricing: { acme: { 'acme-large': { input: 1, output: 2 } } },
+    });
+  });
+
+  async function decodedSpans() {
+    return (await finishedSpans(wrapper, exporter)).map(span => ({ name: span.name, status: span.status, attrs: attributes(span) }));
+  }
+
+  function acmeClient() {
+    return {
+      version: '1.0',
+      llm: {
+        generate: async (params: any) => params.stream
+          ? chunks([{ text: 'a' }, { text: 'b' }])
+          : { tokensIn: 1_000_000, tokensOut: 1_000_000 },
+        classify: async (_params: any) => ({ label: 'spam' }),
+        health: () => 'ok',
+      },
+    };
+  }
+
+  it('ships definitions for the built-in providers', () => {
+    for (const name of ['openai', 'azure_openai', 'anthropic', 'bedrock', 'mistral', 'gemini', 'cohere']) {
+      expect(getProvider(name)).toBeDefined();
+    }
+  });
+
+  it('traces a registered provider like a built-in one', async () => {
+    const client = wrapper.wrap(acmeClient(), 'acme');
+    await client.llm.generate({ model: 'acme-large', temperature: 0.2, prompt: 'Hello' });
+
+    const [span] = await decodedSpans();
+    expect(span.name).toBe('acme.llm.generate');
+    expect(span.status?.code).toBe(0);
+    expect(span.attrs['gen_ai.system']).toBe('acme');
+    expect(span.attrs['gen_ai.request.model']).toBe('acme-large');
+    expect(span.attrs['gen_ai.request.temperature']).toBe(0.2);
+    expect(span.attrs['gen_ai.prompt.hash']).toBeDefined();
+    expect(span.attrs['gen_ai.usage.prompt_tokens']).toBe(1_000_000);
+    expect(span.attrs['gen_ai.usage.completion_tokens']).toBe(1_000_000);
+    expect(span.attrs['gen_ai.usage.total_tokens']).toBeUndefined();
+    expect(span.attrs['gen_ai.usage.cost_usd']).toBeCloseTo(3, 8);
+  });
+
+  it('keeps streamed spans open until the stream is drained', async () => {
+    const client = wrapper.wrap(acmeClient(), 'acme');
+    const stream: any = await client.llm.generate({ model: 'acme-large', stream: true });
+    expect(await decodedSpans()).toHaveLength(0);
+
+    for await (const _chunk of stream) {
+      // drain
+    }
+
+    const [span] = await decodedSpans();
+    expect(span.attrs['gen_ai.request.stream']).toBe(true);
+    expect(span.attrs['gen_ai.usage.completion_tokens']).toBe(2);
+    expect(span.attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+  });
+
+  it('uses custom operation names and leaves calls it skips untraced', async () => {
+    const client = wrapper.wrap(acmeClient(), 'acme');
+    expect(await client.llm.classify({ model: 'acme-mini', dryRun: true })).toEqual({ label: 'spam' });
+    await client.llm.classify({ model: 'acme-large' });
+
+    const spans = await decodedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe('acme.classify');
+    expect(spans[0].attrs['acme.label']).toBe('spam');
+    expect(spans[0].attrs['gen_ai.usage.cost_usd']).toBe(0);
+  });
+
+  it('passes other properties through untouched', async () => {
+    const client = wrapper.wrap(acmeClient(), 'acme');
+    expect(client.version).toBe('1.0');
+    expect(client.llm.health()).toBe('ok');
+    expect(await decodedSpans()).toHaveLength(0);
+  });
+
+  it('records provider errors on the span', async () => {
+    const client = wrapper.wrap({
+      llm: { generate: async (_params: any) => { throw new Error('overloaded'); } },
+    }, 'acme');
+
+    await expect(client.llm.generate({ model: 'acme-large' })).rejects.toThrow('overloaded');
+
+    const [span] = await decodedSpans();
+    expect(span.status).toEqual({ code: 2, message: 'overloaded' });
+    expect(span.attrs['error.message']).toBe('overloaded');
+  });
+
+  it('rejects unknown providers and invalid definitions', () => {
+    expect(() => wrapper.wrap({}, 'nope')).toThrow('Unknown provider "nope"');
+    expect(() => registerProvider({ name: 'empty', methods: [] })).toThrow('has no methods');
+    expect(() => registerProvider({ name: 'bad', methods: [{ path: 'llm..generate' }] })).toThrow('invalid method path');
+  });
+});
@@ -0,0 +1,164 @@
+import { AgentBillTracer } from '../../src/tracer';
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { SamplingConfig } from '../../src/types';
+import { attributes } from '../helpers';
+
+// The sampler reads the low 52 bits of the trace ID
+const LOW_TRACE = '0af7651916cd43dd8000000000000001';
+const HIGH_TRACE = '0af7651916cd43dd8fffffffffffffff';
+
+describe('Sampling', () => {
+  let exporter: InMemoryExporter;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+  });
+
+  function createTracer(sampling: SamplingConfig) {
+    return new AgentBillTracer({ apiKey: 'test-api-key', exporter, sampling, flushOnExit: false });
+  }
+
+  function endSpan(tracer: AgentBillTracer, name: string, traceId: string, status = 0) {
+    const { spanId } = tracer.startSpan(name, { traceId, spanId: 'b7ad6b7169203331' });
+    tracer.setSpanStatus(spanId, status);
+    tracer.endSpan(spanId);
+  }
+
+  async function exported(tracer: AgentBillTracer) {
+    await tracer.flush();
+    return exporter.getFinishedSpans();
+  }
+
+  it('keeps traces by ratio and records the ratio on kept spans', async () => {
+    const tracer = createTracer({ ratio: 0.25 });
+    endSpan(tracer, 'openai.chat.completions.create', LOW_TRACE);
+    endSpan(tracer, 'openai.chat.completions.create', HIGH_TRACE);
+
+    const spans = await exported(tracer);
+    expect(spans.map(span => span.traceId)).toEqual([LOW_TRACE]);
+    expect(attributes(spans[0])).toMatchObject({
+      'agentbill.sampling.ratio': 0.25,
+      'agentbill.sampling.adjusted_count': 4,
+    });
+  });
+
+  it('counts the sampling attributes against the per-span limit', async () => {
+    const tracer = createTracer({ ratio: 0.25 });
+    const { spanId } = tracer.startSpan('busy', { traceId: LOW_TRACE, spanId: 'b7ad6b7169203331' });
+    for (let i = 0; i < 128; i++) {
+      tracer.setSpanAttribute(spanId, `key.${i}`, i);
+    }
+    tracer.endSpan(spanId);
+
+    const [span] = await exported(tracer);
+    expect(span.attributes).toHaveLength(128);
+    expect(span.droppedAttributesCount).toBe(2);
+  });
+
+  it('decides by trace ID, so spans of a trace are kept or dropped together', async () => {
+    const tracer = createTracer({ ratio: 0.25 });
+    const traceIds = Array.from({ length: 2000 }, () => tracer.generateTraceId());
+    for (const traceId of traceIds) {
+      endSpan(tracer, 'step', traceId);
+      endSpan(tracer, 'openai.chat.completions.create', traceId);
+    }
+
+    const spans = await exported(tracer);
+    const kept = new Set(spans.map(span => span.traceId));
+    expect(spans).toHaveLength(kept.size * 2);
+    expect(kept.size / traceIds.length).toBeGreaterThan(0.2);
+    expect(kept.size / traceIds.length).toBeLessThan(0.3);
+  });
+
+  it('applies the first matching per-operation rule', async () => {
+    const tracer = createTracer({
+      ratio: 0,
+      rules: [
+        { operation: 'openai.chat.*', ratio: 1 },
+        { operation: /embeddings/, ratio: 0.05 },
+      ],
+    });
+    endSpan(tracer, 'openai.chat.completions.create', HIGH_TRACE);
+    endSpan(tracer, 'openai.embeddings.create', HIGH_TRACE);
+    endSpan(tracer, 'openai.embeddings.create', LOW_TRACE);
+    endSpan(tracer, 'openai.moderations.create', LOW_TRACE);
+
+    const spans = await exported(tracer);
+    expect(spans.map(span => [span.name, attributes(span)['agentbill.sampling.ratio']])).toEqual([
+      ['openai.chat.completions.create', 1],
+      ['openai.embeddings.create', 0.05],
+    ]);
+  });
+
+  it('keeps failed spans unless keepErrors is false', async () => {
+    const tracer = createTracer({ ratio: 0 });
+    endSpan(tracer, 'openai.chat.completions.create', HIGH_TRACE, 2);
+    const [span] = await exported(tracer);
+    expect(attributes(span)['agentbill.sampling.ratio']).toBe(1);
+
+    exporter.reset();
+    const strict = createTracer({ ratio: 0, keepErrors: false });
+    endSpan(strict, 'openai.chat.completions.create', HIGH_TRACE, 2);
+    expect(await exported(strict)).toEqual([]);
+  });
+
+  it('rejects ratios outside 0 to 1', () => {
+    expect(() => createTracer({ ratio: 1.5 })).toThrow('[AgentBill] Invalid config: sampling.ratio must be a number from 0 to 1, got 1.5');
+    expect(() => createTracer({ rules: [{ operation: '*', ratio: -1 }] })).toThrow('sampling.rules[0].ratio');
+  });
+
+  describe("'usage_only' mode", () => {
+    it('rolls up the usage of unsampled calls and keeps ledger totals exact', async () => {
+      const wrapper = new AgentBillWrapper({
+        apiKey: 'test-api-key',
+        customerId: 'acme',
+        exporter,
+        flushOnExit: false,
+        sampling: { mode: 'usage_only', rules: [{ operation: '*.embeddings.create', ratio: 0 }] },
+      });
+      const openai = wrapper.wrapOpenAI({
+        embeddings: {
+          create: async (_params: any) => ({ usage: { prompt_tokens: 100, total_tokens: 100 } }),
+        },
+        chat: {
+          completions: {
+            create: async (_params: any) => ({
+              choices: [{ finish_reason: 'stop', message: { content: 'Hi' } }],
+              usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+            }),
+          },
+        },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await openai.embeddings.create({ model: 'text-embedding-3-small', input: 'hello' });
+      }
+      await openai.chat.completions.create({ model: 'gpt-4o', messages: [] });
+      await wrapper.flush();
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans.map(span => span.name)).toEqual(['openai.chat.completions.create', 'openai.embeddings.create']);
+      const rollup = attributes(spans[1]);
+      expect(rollup).toMatchObject({
+        'agentbill.span.type': 'usage_rollup',
+        'agentbill.rollup.calls': 3,
+        'agentbill.rollup.errors': 0,
+        'customer.id': 'acme',
+        'gen_ai.system': 'openai',
+        'gen_ai.request.model': 'text-embedding-3-small',
+        'gen_ai.usage.prompt_tokens': 300,
+        'gen_ai.usage.total_tokens': 300,
+      });
+      expect(rollup['gen_ai.usage.cost_usd']).toBeCloseTo(0.000006);
+
+      const { totals } = wrapper.getUsageSummary();
+      expect(totals.calls).toBe(4);
+      expect(totals.promptTokens).toBe(310);
+
+      // Rolled-up usage is only sent once
+      await wrapper.flush();
+      expect(exporter.getFinishedSpans()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { withAttribution } from '../../src/context';
+import { SignalRecord } from '../../src/types';
+
+const fastRetry = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 5 };
+
+describe('Signal tracking', () => {
+  let fetchMock: jest.SpyInstance;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 200 } as any);
+    wrapper = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      customerId: 'customer-1',
+      exporter: new InMemoryExporter(),
+      retry: fastRetry,
+      flushOnExit: false,
+    });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  function sentSignals(): SignalRecord[] {
+    return fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+  }
+
+  it('posts each signal to the collector as a single object', async () => {
+    const key = wrapper.trackSignal({ event_name: 'ticket_resolved', revenue: 2.5, data: { plan: 'pro' } });
+    wrapper.trackSignal({ event_name: 'upsell' });
+    await wrapper.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [url, init] of fetchMock.mock.calls) {
+      expect(url).toBe('https://uenhjwdtnxtchlmqarjo.supabase.co/functions/v1/record-signals');
+      expect(init.headers.Authorization).toBe('Bearer test-api-key');
+    }
+
+    const [resolved, upsell] = sentSignals();
+    expect(resolved).toMatchObject({
+      event_name: 'ticket_resolved',
+      revenue: 2.5,
+      customer_id: 'customer-1',
+      data: { plan: 'pro' },
+      data_source: 'sdk',
+      idempotency_key: key,
+    });
+    expect(upsell.revenue).toBe(0);
+    expect(upsell.idempotency_key).not.toBe(key);
+  });
+
+  it('ties signals to the enclosing trace and attribution', async () => {
+    const step = await wrapper.trace('checkout', context =>
+      withAttribution({ customerId: 'customer-2' }, () => {
+        wrapper.trackSignal({ event_name: 'purchase', revenue: 20 });
+        return context;
+      })
+    );
+    const call = wrapper.recordUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 10 });
+    wrapper.trackSignal({ event_name: 'upsell', revenue: 5, traceId: call.traceId, spanId: call.spanId, customerId: 'customer-3' });
+    await wrapper.flush();
+
+    const [purchase, upsell] = sentSignals();
+    expect(purchase).toMatchObject({ trace_id: step.traceId, span_id: step.spanId, customer_id: 'customer-2' });
+    expect(upsell).toMatchObject({ trace_id: call.traceId, span_id: call.spanId, customer_id: 'customer-3' });
+  });
+
+  it('retries failed sends with the same idempotency key', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers(), text: async () => 'unavailable' } as any)
+      .mockResolvedValue({ ok: true, status: 200 } as any);
+
+    wrapper.trackSignal({ event_name: 'purchase', revenue: 20, idempotencyKey: 'order-42' });
+    await wrapper.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentSignals().map(signal => signal.idempotency_key)).toEqual(['order-42', 'order-42']);
+    expect(wrapper.getSignalExportStats()).toMatchObject({ exported: 1, retries: 1, queued: 0 });
+  });
+
+  it('retries only the signals after a failed one', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200 } as any)
+      .mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers(), text: async () => 'unavailable' } as any)
+      .mockResolvedValue({ ok: true, status: 200 } as any);
+
+    for (const key of ['order-1', 'order-2', 'order-3']) {
+      wrapper.trackSignal({ event_name: 'purchase', revenue: 20, idempotencyKey: key });
+    }
+    await wrapper.flush();
+
+    expect(sentSignals().map(signal => signal.idempotency_key)).toEqual(['order-1', 'order-2', 'order-2', 'order-3']);
+    expect(wrapper.getSignalExportStats()).toMatchObject({ exported: 3, retries: 1, queued: 0 });
+  });
+
+  it('aborts the request in flight when the send times out', async () => {
+    const timingOut = new AgentBillWrapper({
+      apiKey: 'test-api-key',
+      exporter: new InMemoryExporter(),
+      retry: fastRetry,
+      exportTimeoutMs: 50,
+      flushOnExit: false,
+    });
+    let aborted: AbortSignal | undefined;
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200 } as any)
+      .mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+        aborted = init.signal;
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }))
+      .mockResolvedValue({ ok: true, status: 200 } as any);
+
+    timingOut.trackSignal({ event_name: 'purchase', revenue: 20, idempotencyKey: 'order-1' });
+    timingOut.trackSignal({ event_name: 'purchase', revenue: 20, idempotencyKey: 'order-2' });
+    await timingOut.flush();
+
+    expect(aborted?.aborted).toBe(true);
+    expect(sentSignals().map(signal => signal.idempotency_key)).toEqual(['order-1', 'order-2', 'order-2']);
+    expect(timingOut.getSignalExportStats()).toMatchObject({ exported: 2, retries: 1, queued: 0 });
+  });
+
+  it('rejects invalid signals', () => {
+    expect(() => wrapper.trackSignal({ event_name: '' })).toThrow('needs an event_name');
+    expect(() => wrapper.trackSignal({ event_name: 'purchase', revenue: NaN })).toThrow('invalid revenue');
+  });
+});
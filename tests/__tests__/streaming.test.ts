@@ -0,0 +1,180 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { AgentBillConfig } from '../../src/types';
+import { instrumentStream } from '../../src/streaming';
+import { attributes, chunks } from '../helpers';
+
+describe('Streaming instrumentation', () => {
+  const mockConfig: AgentBillConfig = {
+    apiKey: 'test-api-key',
+    customerId: 'test-customer-id',
+    debug: false,
+  };
+
+  let wrapper: AgentBillWrapper;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    wrapper = new AgentBillWrapper(mockConfig);
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => ({}),
+    } as any);
+  });
+
+  async function exportedSpans() {
+    await wrapper.flush();
+    if (fetchMock.mock.calls.length === 0) return [];
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+    return payload.resourceSpans[0].scopeSpans[0].spans.map((span: any) => ({
+      ...span,
+      attrs: attributes(span),
+    }));
+  }
+
+  it('keeps the OpenAI span open until the stream is drained', async () => {
+    const client = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => chunks([
+            { choices: [{ delta: { content: 'Hel' } }] },
+            { choices: [{ delta: { content: 'lo' } }] },
+            { choices: [], usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 } },
+          ]),
+        },
+      },
+    });
+
+    const stream: any = await client.chat.completions.create({
+      model: 'gpt-4o',
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    expect(await exportedSpans()).toHaveLength(0);
+
+    const received: any[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+    expect(received).toHaveLength(3);
+
+    const [span] = await exportedSpans();
+    expect(span.name).toBe('openai.chat.completions.create');
+    expect(span.attrs['gen_ai.usage.prompt_tokens']).toBe(12);
+    expect(span.attrs['gen_ai.usage.completion_tokens']).toBe(2);
+    expect(span.attrs['gen_ai.usage.total_tokens']).toBe(14);
+    expect(span.attrs['gen_ai.response.time_to_first_token_ms']).toBeDefined();
+    expect(span.attrs['gen_ai.response.stream_duration_ms']).toBeDefined();
+    expect(span.status.code).toBe(0);
+  });
+
+  it('flags OpenAI streams requested without include_usage as having unknown usage', async () => {
+    const client = wrapper.wrapOpenAI({
+      chat: {
+        completions: {
+          create: async (_params: any) => chunks([
+            { model: 'gpt-4o-2024-08-06', choices: [{ delta: { content: 'Hi' } }] },
+            { choices: [{ delta: {}, finish_reason: 'stop' }] },
+          ]),
+        },
+      },
+    });
+
+    const stream: any = await client.chat.completions.create({ model: 'gpt-4o', stream: true });
+    for await (const _chunk of stream) {
+      // drain
+    }
+
+    const [span] = await exportedSpans();
+    expect(span.attrs['agentbill.usage.unknown']).toBe(true);
+    expect(span.attrs['gen_ai.usage.prompt_tokens']).toBeUndefined();
+    expect(span.attrs['gen_ai.usage.cost_usd']).toBeUndefined();
+  });
+
+  it('ends a stream dropped without being read once it is collected', async () => {
+    const collected = new Map<object, () => void>();
+    const finalizer = {
+      register: (_stream: object, finish: () => void, token?: object) => collected.set(token!, finish),
+      unregister: (token: object) => collected.delete(token),
+    };
+    const dropped = jest.fn();
+    const read = jest.fn();
+
+    instrumentStream(chunks([1]), { onChunk: () => {}, onEnd: dropped }, finalizer);
+    const stream = instrumentStream(chunks([1]), { onChunk: () => {}, onEnd: read }, finalizer);
+    for await (const _chunk of stream) {
+      // drain
+    }
+    expect(read).toHaveBeenCalledWith(undefined, false);
+
+    // What the registry does once the dropped stream is garbage collected
+    expect(collected.size).toBe(1);
+    collected.forEach(finish => finish());
+    expect(dropped).toHaveBeenCalledWith(undefined, true);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('accumulates Anthropic usage from message_start and message_delta', async () => {
+    const client = wrapper.wrapAnthropic({
+      messages: {
+        create: async (_params: any) => chunks([
+          { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } },
+          { type: 'content_block_delta', delta: { text: 'Hi' } },
+          { type: 'message_delta', usage: { output_tokens: 9 } },
+          { type: 'message_stop' },
+        ]),
+      },
+    });
+
+    const stream: any = await client.messages.create({ model: 'claude-3-5-sonnet', stream: true });
+    for await (const _event of stream) {
+      // drain
+    }
+
+    const [span] = await exportedSpans();
+    expect(span.attrs['gen_ai.usage.prompt_tokens']).toBe(25);
+    expect(span.attrs['gen_ai.usage.completion_tokens']).toBe(9);
+    expect(span.attrs['gen_ai.usage.total_tokens']).toBe(34);
+  });
+
+  it('marks the span as aborted when the caller stops early', async () => {
+    const client = wrapper.wrapMistral({
+      chat: {
+        stream: async (_params: any) => chunks([
+          { data: { choices: [{ delta: { content: 'a' } }] } },
+          { data: { choices: [{ delta: { content: 'b' } }] } },
+        ]),
+      },
+    });
+
+    const stream: any = await client.chat.stream({ model: 'mistral-small-latest' });
+    for await (const _event of stream) {
+      break;
+    }
+
+    const [span] = await exportedSpans();
+    expect(span.name).toBe('mistral.chat.stream');
+    expect(span.attrs['gen_ai.response.stream_aborted']).toBe(true);
+  });
+
+  it('records errors raised mid-stream', async () => {
+    async function* failing() {
+      yield { choices: [{ delta: { content: 'a' } }] };
+      throw new Error('connection reset');
+    }
+    const client = wrapper.wrapOpenAI({
+      chat: { completions: { create: async (_params: any) => failing() } },
+    });
+
+    const stream: any = await client.chat.completions.create({ model: 'gpt-4o', stream: true });
+    await expect(async () => {
+      for await (const _chunk of stream) {
+        // drain
+      }
+    }).rejects.toThrow('connection reset');
+
+    const [span] = await exportedSpans();
+    expect(span.status).toEqual({ code: 2, message: 'connection reset' });
+    expect(span.attrs['error']).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { AgentBillWrapper } from '../../src/wrapper';
+import { InMemoryExporter } from '../../src/exporters';
+import { SpanData } from '../../src/types';
+import { attributes, chunks, finishedSpans } from '../helpers';
+
+function eventAttributes(span: SpanData) {
+  return (span.events || []).map(event => ({ name: event.name, ...attributes(event) }));
+}
+
+const weatherTool = {
+  type: 'function',
+  function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+};
+
+describe('Tool call tracking', () => {
+  let exporter: InMemoryExporter;
+  let wrapper: AgentBillWrapper;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    wrapper = new AgentBillWrapper({ apiKey: 'test-api-key', exporter });
+  });
+
+  function openaiClient(response: any) {
+    return wrapper.wrapOpenAI({ chat: { completions: { create: async (_params: any) => response } } });
+  }
+
+  it('records offered tools, requested tool calls and finish reasons', async () => {
+    const openai = openaiClient({
+      choices: [{
+        finish_reason: 'tool_calls',
+        message: {
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Zürich"}' } },
+          ],
+        },
+      }],
+      usage: { prompt_tokens: 50, completion_tokens: 20, total_tokens: 70 },
+    });
+    await openai.chat.completions.create({ model: 'gpt-4o', messages: [], tools: [weatherTool], tool_choice: 'auto' });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(attrs['gen_ai.request.tools']).toEqual(['get_weather']);
+    expect(attrs['gen_ai.request.tool_choice']).toBe('auto');
+    expect(attrs['gen_ai.response.finish_reasons']).toEqual(['tool_calls']);
+    expect(eventAttributes(span)).toEqual([
+      { name: 'gen_ai.tool.call', 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'call_1', 'gen_ai.tool.call.arguments_size': 16 },
+      { name: 'gen_ai.tool.call', 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'call_2', 'gen_ai.tool.call.arguments_size': 18 },
+    ]);
+  });
+
+  it('assembles tool calls from streamed fragments', async () => {
+    const openai = openaiClient(chunks([
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 20, total_tokens: 70 } },
+    ]));
+    const stream: any = await openai.chat.completions.create({ model: 'gpt-4o', messages: [], tools: [weatherTool], stream: true });
+    for await (const _chunk of stream) {
+      // drain
+    }
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    expect(attributes(span)['gen_ai.response.finish_reasons']).toEqual(['tool_calls']);
+    expect(attributes(span)['gen_ai.usage.total_tokens']).toBe(70);
+    expect(eventAttributes(span)).toEqual([
+      { name: 'gen_ai.tool.call', 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'call_1', 'gen_ai.tool.call.arguments_size': 16 },
+    ]);
+  });
+
+  it('records Anthropic tool_use blocks and stop reasons', async () => {
+    const anthropic = wrapper.wrapAnthropic({
+      messages: {
+        create: async (_params: any) => ({
+          model: 'claude-3-5-sonnet-20241022',
+          stop_reason: 'tool_use',
+          content: [
+            { type: 'text', text: 'Checking the weather.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+          ],
+          usage: { input_tokens: 50, output_tokens: 20 },
+        }),
+      },
+    });
+    await anthropic.messages.create({
+      model: 'claude-3-5-sonnet-20241022',
+      messages: [],
+      tools: [{ name: 'get_weather', input_schema: { type: 'object' } }],
+      tool_choice: { type: 'tool', name: 'get_weather' },
+    });
+
+    const [span] = await finishedSpans(wrapper, exporter);
+    const attrs = attributes(span);
+    expect(attrs['gen_ai.request.tools']).toEqual(['get_weather']);
+    expect(attrs['gen_ai.request.tool_choice']).toBe('get_weather');
+    expect(attrs['gen_ai.response.finish_reasons']).toEqual(['tool_use']);
+    expect(eventAttributes(span)).toEqual([
+      { name: 'gen_ai.tool.call', 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'toolu_1', 'gen_ai.tool.call.arguments_size': 16 },
+    ]);
+  });
+
+  describe('wrapTool()', () => {
+    it('traces tool runs as children of the call that requested them', async () => {
+      const openai = openaiClient({
+        choices: [{
+          finish_reason: 'tool_calls',
+          message: { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }] },
+        }],
+      });
+      const getWeather = wrapper.wrapTool(
+        'get_weather',
+        async (city: string, _callId: string) => `Sunny in ${city}`,
+        { callId: (_city, callId) => callId }
+      );
+
+      await openai.chat.completions.create({ model: 'gpt-4o', messages: [], tools: [weatherTool] });
+      expect(await getWeather('Paris', 'call_1')).toBe('Sunny in Paris');
+
+      const [llm, tool] = await finishedSpans(wrapper, exporter);
+      const attrs = attributes(tool);
+      expect(tool.name).toBe('tool.get_weather');
+      expect(tool.kind).toBe('internal');
+      expect(tool.parentSpanId).toBe(llm.spanId);
+      expect(tool.traceId).toBe(llm.traceId);
+      expect(tool.status?.code).toBe(0);
+      expect(attrs['agentbill.span.type']).toBe('tool');
+      expect(attrs['gen_ai.tool.name']).toBe('get_weather');
+      expect(attrs['gen_ai.tool.call.id']).toBe('call_1');
+      expect(attrs['gen_ai.response.latency_ms']).toBeDefined();
+    });
+
+    it('nests tool runs under the enclosing step and links them to the call', async () => {
+      const openai = openaiClient({
+        choices: [{
+          finish_reason: 'tool_calls',
+          message: { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }] },
+        }],
+      });
+      const getWeather = wrapper.wrapTool('get_weather', async (city: string) => `Sunny in ${city}`);
+
+      await openai.chat.completions.create({ model: 'gpt-4o', messages: [], tools: [weatherTool] });
+      await wrapper.trace('act', () => getWeather('Paris'));
+
+      const spans = await finishedSpans(wrapper, exporter);
+      const llm = spans.find(span => span.name === 'openai.chat.completions.create')!;
+      const step = spans.find(span => span.name === 'act')!;
+      const tool = spans.find(span => span.name === 'tool.get_weather')!;
+      expect(tool.parentSpanId).toBe(step.spanId);
+      expect(tool.links).toEqual([{
+        traceId: llm.traceId,
+        spanId: llm.spanId,
+        attributes: [{ key: 'agentbill.link.type', value: { stringValue: 'tool_call' } }],
+      }]);
+      expect(attributes(tool)['gen_ai.tool.call.id']).toBe('call_1');
+    });
+
+    it('records errors thrown by the tool and rethrows them', async () => {
+      const lookup = wrapper.wrapTool('lookup', async () => {
+        throw new Error('not found');
+      });
+
+      await expect(lookup()).rejects.toThrow('not found');
+
+      const [span] = await finishedSpans(wrapper, exporter);
+      expect(span.parentSpanId).toBeUndefined();
+      expect(span.status).toEqual({ code: 2, message: 'not found' });
+      expect(attributes(span)['error']).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+// Shared helpers for the test suites
+import { InMemoryExporter } from '../src/exporters';
+import { decodeValue } from '../src/otlp';
+import { OtlpKeyValue, SpanData } from '../src/types';
+
+/**
+ * Decoded attributes of a span or span event, keyed by name
+ */
+export function attributes(item: { attributes?: OtlpKeyValue[] }): Record<string, any> {
+  return Object.fromEntries((item.attributes || []).map(attribute => [attribute.key, decodeValue(attribute.value)]));
+}
+
+/**
+ * Flush `source` and return every span `exporter` received
+ */
+export async function finishedSpans(source: { flush(): Promise<unknown> }, exporter: InMemoryExporter): Promise<SpanData[]> {
+  await source.flush();
+  return exporter.getFinishedSpans();
+}
+
+/**
+ * Stream fixture yielding `items`, like a provider SDK's streamed response
+ */
+export async function* chunks(items: any[]) {
+  for (const item of items) {
+    yield item;
+  }
+}
@@ -1,6 +1,6 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
+export default defineConfig([{
   entry: ['src/index.ts'],
   format: ['cjs', 'esm'],
   dts: true,
@@ -17,4 +17,14 @@ export default defineConfig({
       js: format === 'cjs' ? '.js' : '.mjs',
     };
   },
-});
+}, {
+  entry: { 'dev-collector': 'src/dev-collector-cli.ts' },
+  format: ['cjs'],
+  dts: false,
+  splitting: false,
+  sourcemap: true,
+  clean: false,
+  minify: false,
+  treeshake: true,
+  silent: false,
+}]);